@@ -0,0 +1,77 @@
+import { EmailAttachment } from "./emailTemplates.js";
+
+// Minimal iCalendar (RFC 5545) output for trips. Times are written in UTC, which every client converts
+// to the viewer's zone, so no VTIMEZONE blocks are needed.
+
+export type CalendarEvent = {
+  uid: string
+  start: Date
+  end: Date
+  summary: string
+  description: string
+  location?: string
+  url: string
+  lastModified?: Date
+}
+
+const PRODUCT_ID = "-//Peer Ride//Trips//EN";
+
+const formatUtc = (date: Date): string => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Content lines are folded at 75 octets; continuation lines start with a space.
+const foldLine = (line: string): string => {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, "utf8") > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const renderEvent = (event: CalendarEvent, now: Date): string[] => [
+  "BEGIN:VEVENT",
+  `UID:${event.uid}`,
+  `DTSTAMP:${formatUtc(now)}`,
+  ...(event.lastModified ? [`LAST-MODIFIED:${formatUtc(event.lastModified)}`] : []),
+  `DTSTART:${formatUtc(event.start)}`,
+  `DTEND:${formatUtc(event.end)}`,
+  `SUMMARY:${escapeText(event.summary)}`,
+  `DESCRIPTION:${escapeText(event.description)}`,
+  ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+  `URL:${event.url}`,
+  "STATUS:CONFIRMED",
+  "END:VEVENT",
+];
+
+export function renderCalendar(events: CalendarEvent[], name?: string): string {
+  const now = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...events.flatMap((event) => renderEvent(event, now)),
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+export const calendarAttachment = (event: CalendarEvent): EmailAttachment => ({
+  filename: "trip.ics",
+  content: renderCalendar([event]),
+  contentType: "text/calendar; charset=utf-8; method=PUBLISH",
+});
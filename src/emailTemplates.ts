@@ -0,0 +1,409 @@
+// Email templates. Every value interpolated here may come from a user (nicknames, location names,
+// contact values, notes), so templates are built from blocks that are escaped when rendered to HTML
+// and rendered again as plain text for the `text` part.
+
+export type EmailMessage = {
+  subject: string
+  html: string
+  text: string
+  attachments?: EmailAttachment[]
+}
+
+// Passed through to the mail extension's nodemailer message as-is.
+export type EmailAttachment = {
+  filename: string
+  content: string
+  contentType: string
+}
+
+// Trip fields shared by most emails, as computed by getCommonEmailData.
+export type TripSummary = {
+  origin: string
+  destination: string
+  start: string
+  end: string
+  tripUrl: string
+  hoursToTrip: number
+}
+
+export type ContactDetails = {
+  name: string
+  method?: unknown
+  value?: unknown
+}
+
+type Inline = string | { strong: string } | { link: string; label: string };
+
+type Block =
+  | { kind: "paragraph"; content: Inline[] }
+  | { kind: "list"; items: Inline[][] };
+
+const ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  "\"": "&quot;",
+  "'": "&#39;",
+};
+
+export const escapeHtml = (value: unknown): string => String(value ?? "").replace(/[&<>"']/g, (char) => ESCAPES[char]);
+
+// Subjects become mail headers; collapse line breaks so a value can't start a new header.
+const cleanSubject = (value: string): string => value.replace(/[\r\n]+/g, " ").trim();
+
+// Only links we build ourselves are allowed; anything else renders as plain text.
+const isSafeHref = (href: string): boolean => /^(https?:|mailto:|tel:)/i.test(href);
+
+const renderInlineHtml = (content: Inline[]): string =>
+  content.map((part) => {
+    if (typeof part === "string") return escapeHtml(part);
+    if ("strong" in part) return `<strong>${escapeHtml(part.strong)}</strong>`;
+    return isSafeHref(part.link) ? `<a href="${escapeHtml(part.link)}">${escapeHtml(part.label)}</a>` : escapeHtml(part.label);
+  }).join("");
+
+const renderInlineText = (content: Inline[]): string =>
+  content.map((part) => {
+    if (typeof part === "string") return part;
+    if ("strong" in part) return part.strong;
+    return part.label === part.link || part.link.startsWith("mailto:") || part.link.startsWith("tel:")
+      ? part.label
+      : `${part.label} (${part.link})`;
+  }).join("");
+
+const FOOTER_LINES = ["Best regards,", "Peer-ride support team"];
+
+// Shared layout: optional greeting, body blocks, then the support team sign-off.
+function renderEmail(subject: string, body: Block[], greeting?: string): EmailMessage {
+  const blocks: Block[] = [
+    ...(greeting ? [{ kind: "paragraph", content: [`Hi ${greeting},`] } as Block] : []),
+    ...body,
+  ];
+
+  const htmlBody = blocks.map((block) => block.kind === "paragraph"
+    ? `<p>${renderInlineHtml(block.content)}</p>`
+    : `<ul>\n${block.items.map((item) => `  <li>${renderInlineHtml(item)}</li>`).join("\n")}\n</ul>`);
+  const textBody = blocks.map((block) => block.kind === "paragraph"
+    ? renderInlineText(block.content)
+    : block.items.map((item) => `- ${renderInlineText(item)}`).join("\n"));
+
+  return {
+    subject: cleanSubject(subject),
+    html: [...htmlBody, "<br>", ...FOOTER_LINES.map((line) => `<p>${escapeHtml(line)}</p>`)].join("\n"),
+    text: [...textBody, FOOTER_LINES.join("\n")].join("\n\n"),
+  };
+}
+
+const paragraph = (...content: Inline[]): Block => ({ kind: "paragraph", content });
+
+const list = (...items: (Inline[] | null)[]): Block => ({
+  kind: "list",
+  items: items.filter((item): item is Inline[] => item !== null),
+});
+
+const route = (trip: TripSummary): string => `${trip.origin} → ${trip.destination}`;
+
+const windowItem = (trip: TripSummary): Inline[] => [`Window: ${trip.start} – ${trip.end}`];
+
+const coRidersItem = (coRiders: string[]): Inline[] | null =>
+  coRiders.length > 0 ? [`Co-riders: ${coRiders.join(", ")}`] : null;
+
+const contactBlock = ({ name, method, value }: ContactDetails): Block | null => {
+  if (typeof value !== "string" || !value.trim()) return null;
+  if (method === "email") {
+    return paragraph("You can also contact ", { strong: name }, " via email: ", { link: `mailto:${value}`, label: value });
+  }
+  if (method === "phone") {
+    return paragraph("You can also contact ", { strong: name }, " via phone: ", { link: `tel:${value}`, label: value });
+  }
+  return null;
+};
+
+const chatBlock = (trip: TripSummary): Block =>
+  paragraph(
+    "Please ",
+    { link: trip.tripUrl, label: "open trip details" },
+    " to coordinate via our in-app live chat, which can also be found by selecting the ",
+    { strong: "\"Me\"" },
+    " page, then the ",
+    { strong: "\"View\"" },
+    " button on the correct card.",
+  );
+
+const exchangeContactsBlock = (trip: TripSummary): Block => trip.hoursToTrip <= 30
+  ? paragraph(
+    { strong: "Because your trip is within 30 hours" },
+    ", it might be helpful to exchange phone numbers or emails to facilitate prompt finalisation of details.",
+  )
+  : paragraph("Feel free to exchange emails or phone numbers if you'd like to facilitate easier communication.");
+
+const twoStopBlock = paragraph(
+  "Please consider using Uber and Lyft's two stop functionality when booking a ride, which may save you some walking.",
+);
+
+const browseMoreBlocks = (appUrl: string): Block[] => [
+  paragraph("You can browse more trips and send another request."),
+  paragraph({ link: appUrl, label: "Open Peer Ride" }),
+];
+
+const compact = (blocks: (Block | null)[]): Block[] => blocks.filter((block): block is Block => block !== null);
+
+export const pairRequestReceivedEmail = (data: {
+  hostNickname: string
+  requesterName: string
+  trip: TripSummary
+  reputation: string
+  pendingCount: number
+}): EmailMessage => renderEmail(
+  `New pairing request for your trip ${route(data.trip)}`,
+  [
+    paragraph({ strong: data.requesterName }, " just sent a pairing request."),
+    list(
+      [`Route: ${route(data.trip)}`],
+      windowItem(data.trip),
+      [`Rider reputation: ${data.reputation}`],
+      [`Pending requests awaiting action: ${data.pendingCount}`],
+    ),
+    paragraph({ link: data.trip.tripUrl, label: "Open trip requests" }),
+  ],
+  data.hostNickname,
+);
+
+export const guestAcceptedEmail = (data: {
+  hostNickname: string
+  trip: TripSummary
+  coRiders: string[]
+  hostContact: ContactDetails
+}): EmailMessage => renderEmail(
+  `Peer-Ride: Your pairing request was accepted by ${data.hostNickname}`,
+  compact([
+    paragraph(
+      "Great news! Your pairing request for ",
+      { strong: `${data.trip.origin} -> ${data.trip.destination}` },
+      " was accepted by ",
+      { strong: data.hostNickname },
+      ". Your pairing is now confirmed.",
+    ),
+    list(windowItem(data.trip), [`Time to trip: ${data.trip.hoursToTrip} hours`], coRidersItem(data.coRiders)),
+    chatBlock(data.trip),
+    contactBlock(data.hostContact),
+    exchangeContactsBlock(data.trip),
+    twoStopBlock,
+  ]),
+);
+
+export const hostAcceptedEmail = (data: {
+  guestNickname: string
+  trip: TripSummary
+  coRiders: string[]
+  seatsFilled: string
+  guestContact: ContactDetails
+}): EmailMessage => renderEmail(
+  `Peer-Ride: You have confirmed your pairing with ${data.guestNickname}`,
+  compact([
+    paragraph(
+      "You have confirmed your pairing with ",
+      { strong: data.guestNickname },
+      " for ",
+      { strong: `${data.trip.origin} -> ${data.trip.destination}` },
+      "!",
+    ),
+    list(
+      windowItem(data.trip),
+      [`Time to trip: ${data.trip.hoursToTrip} hours`],
+      coRidersItem(data.coRiders),
+      [`Seats filled: ${data.seatsFilled}`],
+    ),
+    chatBlock(data.trip),
+    contactBlock(data.guestContact),
+    exchangeContactsBlock(data.trip),
+    twoStopBlock,
+  ]),
+);
+
+export const requestDeclinedEmail = (data: {
+  hostNickname: string
+  trip: TripSummary
+  appUrl: string
+}): EmailMessage => renderEmail(
+  `Your pairing request was declined by ${data.hostNickname}`,
+  [
+    paragraph("Your request for ", { strong: route(data.trip) }, " was declined."),
+    ...browseMoreBlocks(data.appUrl),
+  ],
+);
+
+export const requestWithdrawnEmail = (data: {
+  hostNickname: string
+  guestNickname: string
+  trip: TripSummary
+}): EmailMessage => renderEmail(
+  `${data.guestNickname} withdrew their pairing request`,
+  [
+    paragraph({ strong: data.guestNickname }, " withdrew their request for ", { strong: route(data.trip) }, "."),
+    paragraph("Your trip is still open to other requests."),
+    paragraph({ link: data.trip.tripUrl, label: "Open trip requests" }),
+  ],
+  data.hostNickname,
+);
+
+export const tripCancelledEmail = (data: {
+  trip: TripSummary
+  cancelledBy: "host" | "admin"
+  reason: string | null
+  appUrl: string
+}): EmailMessage => renderEmail(
+  `Peer-Ride: The trip ${route(data.trip)} was cancelled`,
+  compact([
+    paragraph(
+      "The trip ",
+      { strong: route(data.trip) },
+      ` (${data.trip.start} – ${data.trip.end}) was cancelled by ${data.cancelledBy === "admin" ? "campus staff" : "the host"}.`,
+    ),
+    data.reason ? paragraph(`Reason given: ${data.reason}`) : null,
+    ...browseMoreBlocks(data.appUrl),
+  ]),
+);
+
+export const hostTripCancelledByAdminEmail = (data: {
+  hostNickname: string
+  trip: TripSummary
+  reason: string | null
+}): EmailMessage => renderEmail(
+  `Peer-Ride: Your trip ${route(data.trip)} was cancelled`,
+  compact([
+    paragraph("Campus staff cancelled your trip ", { strong: route(data.trip) }, ` (${data.trip.start} – ${data.trip.end}).`),
+    data.reason ? paragraph(`Reason given: ${data.reason}`) : null,
+    paragraph("Your riders have been notified."),
+  ]),
+  data.hostNickname,
+);
+
+export const guestRemovedEmail = (data: {
+  hostNickname: string
+  trip: TripSummary
+  appUrl: string
+}): EmailMessage => renderEmail(
+  `Peer-Ride: ${data.hostNickname} ended your pairing`,
+  [
+    paragraph(
+      { strong: data.hostNickname },
+      " ended your pairing for ",
+      { strong: route(data.trip) },
+      ` (${data.trip.start} – ${data.trip.end}).`,
+    ),
+    ...browseMoreBlocks(data.appUrl),
+  ],
+);
+
+export const guestLeftEmail = (data: {
+  hostNickname: string
+  guestNickname: string
+  trip: TripSummary
+  reopened: boolean
+}): EmailMessage => renderEmail(
+  `Peer-Ride: ${data.guestNickname} left your trip`,
+  compact([
+    paragraph(
+      { strong: data.guestNickname },
+      " left your trip ",
+      { strong: route(data.trip) },
+      ` (${data.trip.start} – ${data.trip.end}).`,
+    ),
+    data.reopened ? paragraph("Your trip has been reopened so other riders can send requests.") : null,
+    paragraph({ link: data.trip.tripUrl, label: "Open trip details" }),
+  ]),
+  data.hostNickname,
+);
+
+export const tripUpdatedEmail = (data: {
+  hostNickname: string
+  trip: TripSummary
+  changes: string[]
+}): EmailMessage => renderEmail(
+  `Peer-Ride: ${data.hostNickname} updated the trip ${route(data.trip)}`,
+  [
+    paragraph({ strong: data.hostNickname }, " changed the trip ", { strong: route(data.trip) }, ":"),
+    list(...data.changes.map((change) => [change])),
+    paragraph("Please ", { link: data.trip.tripUrl, label: "open trip details" }, " to check the trip still works for you."),
+  ],
+);
+
+export const routeAlertEmail = (data: {
+  hostNickname: string
+  trip: TripSummary
+}): EmailMessage => renderEmail(
+  `Peer-Ride: New trip ${route(data.trip)}`,
+  [
+    paragraph("A trip matching your route alert was just posted by ", { strong: data.hostNickname }, "."),
+    list([`Route: ${route(data.trip)}`], windowItem(data.trip)),
+    paragraph({ link: data.trip.tripUrl, label: "Open trip and send a request" }),
+    paragraph("You can manage your route alerts from the ", { strong: "\"Me\"" }, " page."),
+  ],
+);
+
+export const hostDepartureReminderEmail = (data: {
+  hostNickname: string
+  trip: TripSummary
+  when: string
+  guestContacts: ContactDetails[]
+}): EmailMessage => renderEmail(
+  `Peer-Ride reminder: your trip ${route(data.trip)} leaves ${data.when}`,
+  compact([
+    paragraph("Your trip ", { strong: route(data.trip) }, ` leaves ${data.when}.`),
+    list(windowItem(data.trip), coRidersItem(data.guestContacts.map((contact) => contact.name))),
+    ...data.guestContacts.map(contactBlock),
+    paragraph("Please ", { link: data.trip.tripUrl, label: "open trip details" }, " to coordinate via the in-app live chat."),
+  ]),
+  data.hostNickname,
+);
+
+export const guestDepartureReminderEmail = (data: {
+  hostNickname: string
+  trip: TripSummary
+  when: string
+  coRiders: string[]
+  hostContact: ContactDetails
+}): EmailMessage => renderEmail(
+  `Peer-Ride reminder: your trip with ${data.hostNickname} leaves ${data.when}`,
+  compact([
+    paragraph("Your trip with ", { strong: data.hostNickname }, " for ", { strong: route(data.trip) }, ` leaves ${data.when}.`),
+    list(windowItem(data.trip), coRidersItem(data.coRiders)),
+    contactBlock(data.hostContact),
+    paragraph("Please ", { link: data.trip.tripUrl, label: "open trip details" }, " to coordinate via the in-app live chat."),
+  ]),
+);
+
+export const unreadChatEmail = (data: {
+  recipientNickname: string
+  senders: string[]
+  count: number
+  trip: TripSummary
+}): EmailMessage => renderEmail(
+  `Peer-Ride: ${data.count} unread message${data.count === 1 ? "" : "s"} about your trip ${route(data.trip)}`,
+  [
+    paragraph(
+      `You have ${data.count} unread message${data.count === 1 ? "" : "s"} from `,
+      { strong: data.senders.join(", ") },
+      " about your trip ",
+      { strong: route(data.trip) },
+      ".",
+    ),
+    list(windowItem(data.trip)),
+    paragraph({ link: data.trip.tripUrl, label: "Open the trip chat" }, " to reply."),
+  ],
+  data.recipientNickname,
+);
+
+export const notificationDigestEmail = (data: {
+  period: "hourly" | "daily"
+  items: EmailMessage[]
+  appUrl: string
+}): EmailMessage => renderEmail(
+  `Peer-Ride: ${data.items.length} update${data.items.length === 1 ? "" : "s"} from the last ${data.period === "hourly" ? "hour" : "day"}`,
+  [
+    paragraph(`Here is your ${data.period} summary of Peer Ride notifications:`),
+    list(...data.items.map((item) => [item.subject])),
+    paragraph({ link: data.appUrl, label: "Open Peer Ride" }, " to see the details."),
+    paragraph("You can change how often we email you from the ", { strong: "\"Me\"" }, " page."),
+  ],
+);
@@ -1,47 +1,145 @@
 
 import * as admin from "firebase-admin";
+import { createHash, randomBytes } from "crypto";
 import { setGlobalOptions } from "firebase-functions/v2/options";
 import { beforeUserCreated } from "firebase-functions/v2/identity";
-import { onDocumentUpdated } from "firebase-functions/v2/firestore";
+import * as functionsV1 from "firebase-functions/v1";
+import { onDocumentCreated, onDocumentUpdated } from "firebase-functions/v2/firestore";
 import { onSchedule } from "firebase-functions/v2/scheduler";
-import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { CallableRequest, HttpsError, onCall, onRequest } from "firebase-functions/v2/https";
+import { assertRecaptcha, assertRecaptchaScore } from "./recaptcha.js";
+import { enforceRateLimit } from "./rateLimit.js";
+import { CalendarEvent, calendarAttachment, renderCalendar } from "./calendar.js";
+import {
+  RecurrenceRule,
+  addDays,
+  assertDepartureWindow,
+  isLocalDate,
+  listOccurrenceDates,
+  localDate,
+  parseRecurrenceRule,
+  validateDepartureWindow,
+  zonedDateTime,
+} from "./scheduling.js";
+import {
+  DEFAULT_TIMEZONE,
+  SchoolSettings,
+  findSchoolLocation,
+  getSchoolSettings,
+  getSchoolTimezone,
+} from "./schoolSettings.js";
+import {
+  ContactDetails,
+  EmailAttachment,
+  TripSummary,
+  guestAcceptedEmail,
+  guestDepartureReminderEmail,
+  guestLeftEmail,
+  guestRemovedEmail,
+  hostAcceptedEmail,
+  hostDepartureReminderEmail,
+  hostTripCancelledByAdminEmail,
+  pairRequestReceivedEmail,
+  requestDeclinedEmail,
+  requestWithdrawnEmail,
+  routeAlertEmail,
+  tripCancelledEmail,
+  tripUpdatedEmail,
+  unreadChatEmail,
+} from "./emailTemplates.js";
+import {
+  deleteNotificationData,
+  dispatchNotification,
+  exportNotificationData,
+  getNotificationPreferences,
+  prepareNotification,
+  registerDeviceToken,
+  sendNotificationDigests,
+  sendPushNotification,
+  unregisterDeviceToken,
+  updateNotificationPreferences,
+} from "./notifications.js";
+
+
+type TripStatus = "open" | "paired" | "closed" | "cancelled";
+
+type ReminderKind = "day" | "soon";
+
+type Luggage = {
+  carryOnSmall: number
+  carryOnLarge: number
+  checkedSmall: number
+  checkedLarge: number
+}
 
-const TIMEZONE = "America/Chicago";
+type TripGuest = {
+  id: string
+  nickname: string
+  luggage?: Luggage
+  note?: string | null
+  guestContactMethod?: string
+  // Masked value shown before reveal; the real value lives in the trip's private subcollection.
+  guestContactHint?: string | null
+  // Written before contact values moved to private documents; see migrateContactPrivacy.
+  guestContactValue?: string | null
+  reputation?: ReputationSummary
+}
 
 type TripData = {
   hostId: string
   hostNickname: string
-  status: string
+  status: TripStatus
   departureStart: admin.firestore.Timestamp
   departureEnd: admin.firestore.Timestamp
-  origin: { name: string }
-  destination: { name: string }
+  // Canonical copies from the school's location catalog; trips created before it carry only id and name.
+  origin: { id?: string; name: string; kind?: string; lat?: number; lng?: number }
+  destination: { id?: string; name: string; kind?: string; lat?: number; lng?: number }
+  // IANA zone of the school when the trip was created; emails format times in it.
   timezone?: string
   hostContactMethod?: string
+  hostContactHint?: string | null
   hostContactValue?: string
-  guest?: {
-    id: string
-    nickname: string
-  } | null
-  luggage?: Record<string, number>
+  seats?: number
+  guests?: TripGuest[]
+  // Single-guest field written before multi-seat trips; read through getTripGuests.
+  guest?: TripGuest | null
+  luggage?: Luggage
+  // Bags the vehicle can take, by slot size. Trips created before this field skip capacity checks.
+  vehicleCapacity?: Luggage | null
   note?: string | null
+  cancelReason?: string | null
+  cancelledBy?: "host" | "admin"
+  // Set when a departure reminder goes out so retried runs never resend it.
+  remindersSent?: Partial<Record<ReminderKind, admin.firestore.Timestamp>>
+  // Set on trips generated from a series; the trip id is `${seriesId}_${occurrenceDate}`.
+  seriesId?: string
+  occurrenceDate?: string
+  // Host or guests who deleted their account; they no longer count as chat participants.
+  deletedUserIds?: string[]
 }
 
+type PairRequestStatus = "pending" | "accepted" | "declined" | "withdrawn" | "cancelled" | "removed" | "left";
+
 type PairRequestData = {
   tripId: string
   hostId: string
   hostNickname: string
   requesterId: string
   requesterName: string
-  status: string
-  luggage: Record<string, number>
+  status: PairRequestStatus
+  luggage: Luggage
   note?: string | null
   requesterContactMethod?: string
+  requesterContactHint?: string | null
   requesterContactValue?: string
+  declineReason?: "trip-cancelled" | null
+  requesterReputation?: ReputationSummary
   created?: admin.firestore.Timestamp
 }
 
 type CreateTripPayload = {
+  seats?: unknown
+  vehicleCapacity?: unknown
   origin: unknown
   destination: unknown
   departureStart: unknown
@@ -51,12 +149,231 @@ type CreateTripPayload = {
   hostNickname: unknown
   hostContactMethod: unknown
   hostContactValue: unknown
+  recaptchaToken?: unknown
+}
+
+// The host-chosen fields of a trip, validated once and reused by createTrip and trip series.
+type TripTemplate = {
+  hostNickname: string
+  hostContactMethod: string
+  hostContactHint: string | null
+  origin: TripData["origin"]
+  destination: TripData["destination"]
+  luggage: Luggage
+  vehicleCapacity: Luggage | null
+  note: string | null
+  seats: number
+}
+
+type TripSeriesStatus = "active" | "ended" | "cancelled";
+
+type TripSeriesData = {
+  hostId: string
+  template: TripTemplate
+  recurrence: RecurrenceRule
+  // Local dates and time in the series timezone.
+  startDate: string
+  endDate: string
+  departureTime: string
+  windowMinutes: number
+  timezone: string
+  status: TripSeriesStatus
+  // Occurrences the host skipped before their trip was generated.
+  skippedDates: string[]
+}
+
+type CreateTripSeriesPayload = {
+  template?: Omit<CreateTripPayload, "departureStart" | "departureEnd" | "recaptchaToken">
+  recurrence?: unknown
+  startDate?: unknown
+  endDate?: unknown
+  departureTime?: unknown
+  windowMinutes?: unknown
+  recaptchaToken?: unknown
+}
+
+type TripSeriesActionPayload = {
+  seriesId?: unknown
+  date?: unknown
+  reason?: unknown
+}
+
+type UpdateTripPayload = {
+  tripId?: unknown
+  departureStart?: unknown
+  departureEnd?: unknown
+  luggage?: unknown
+  note?: unknown
+  hostContactMethod?: unknown
+  hostContactValue?: unknown
 }
 
 type AcceptPairRequestPayload = {
   requestId?: unknown
+  recaptchaToken?: unknown
+}
+
+type PairRequestActionPayload = {
+  requestId?: unknown
+}
+
+type TripActionPayload = {
+  tripId?: unknown
+  reason?: unknown
+  guestId?: unknown
+}
+
+type FindMatchingTripsPayload = {
+  origin?: unknown
+  destination?: unknown
+  departureStart?: unknown
+  departureEnd?: unknown
+  luggage?: unknown
+  pageSize?: unknown
+  cursor?: unknown
+}
+
+type TripMatch = {
+  id: string
+  overlapMs: number
+  startMs: number
+  trip: TripData
+}
+
+type TripMatchKey = Pick<TripMatch, "id" | "overlapMs" | "startMs">
+
+type RouteSubscriptionData = {
+  userId: string
+  origin: { id: string; name: string }
+  destination: { id: string; name: string }
+  windowStart: admin.firestore.Timestamp
+  windowEnd: admin.firestore.Timestamp
+  // Equal to windowEnd; drives the Firestore TTL policy and the daily cleanup.
+  expiresAt: admin.firestore.Timestamp
+}
+
+type CreateRouteSubscriptionPayload = {
+  origin?: unknown
+  destination?: unknown
+  windowStart?: unknown
+  windowEnd?: unknown
+}
+
+type RouteSubscriptionActionPayload = {
+  subscriptionId?: unknown
+}
+
+type ReputationData = {
+  ratingCount: number
+  ratingSum: number
+  noShowCount: number
+}
+
+type ReputationSummary = {
+  averageRating: number | null
+  ratingCount: number
+  noShowCount: number
+}
+
+type SubmitTripReviewPayload = {
+  tripId?: unknown
+  revieweeId?: unknown
+  rating?: unknown
+  comment?: unknown
+  noShow?: unknown
+}
+
+type BlockUserPayload = {
+  userId?: unknown
+}
+
+type ReportUserPayload = {
+  reportedUserId?: unknown
+  reason?: unknown
+  details?: unknown
+  tripId?: unknown
+  requestId?: unknown
+}
+
+type AdminRole = "admin" | "moderator";
+
+type AdminDomainPayload = {
+  schoolId?: unknown
+  domain?: unknown
+}
+
+type BackfillSchoolClaimsPayload = {
+  // Remove the schoolId claim from users whose domain no longer matches any school.
+  clearUnmatched?: unknown
+}
+
+type AdminUserPayload = {
+  userId?: unknown
+  reason?: unknown
+}
+
+type AdminTripPayload = {
+  schoolId?: unknown
+  tripId?: unknown
+  reason?: unknown
+}
+
+type ChatUnreadState = {
+  count: number
+  since: admin.firestore.Timestamp | null
+  notified: boolean
+}
+
+type TripChatData = {
+  // Null once the host has deleted their account.
+  hostId: string | null
+  participantIds: string[]
+  readOnly: boolean
+  unread?: Record<string, ChatUnreadState>
+  // Earliest moment a participant's unread messages become due for an email; null when none are.
+  unreadAlertDueAt?: admin.firestore.Timestamp | null
+  lastMessageAt?: admin.firestore.Timestamp
+}
+
+type TripChatPayload = {
+  tripId?: unknown
+  text?: unknown
+}
+
+// Stored at .../private/{id} under a trip or pair request. Client reads of `private` are denied by rules.
+type ContactRecord = {
+  method: string
+  value: string | null
+}
+
+type CallerContext = {
+  uid: string
+  email: string
+  schoolId: string
+}
+
+// Which statuses a pair request may enter each status from. Who is notified of each status is decided by
+// PAIR_REQUEST_NOTIFIERS, next to notifyPairAcceptance.
+type PairRequestTransition = {
+  from: PairRequestStatus[]
 }
 
+const PAIR_REQUEST_TRANSITIONS: Record<PairRequestStatus, PairRequestTransition> = {
+  pending: { from: [] },
+  accepted: { from: ["pending"] },
+  declined: { from: ["pending"] },
+  withdrawn: { from: ["pending"] },
+  // Accepted guest whose trip was cancelled by the host.
+  cancelled: { from: ["accepted"] },
+  // Accepted guest dropped from the trip by the host.
+  removed: { from: ["accepted"] },
+  // Accepted guest who left the trip themselves.
+  left: { from: ["accepted"] },
+};
+
+const canTransitionPairRequest = (from: string | undefined, to: PairRequestStatus): boolean =>
+  !!from && PAIR_REQUEST_TRANSITIONS[to].from.includes(from as PairRequestStatus);
+
 setGlobalOptions({ maxInstances: 10 });
 
 admin.initializeApp();
@@ -67,9 +384,11 @@ let lastFetchMs = 0;
 const CACHE_TTL_MS = 60_000;
 const frontendBaseUrl = (process.env.FRONTEND_BASE_URL ?? "https://peerride.app").replace(/\/$/, "");
 
-async function getSchoolConfig(): Promise<Record<string, string[]>> {
+// Each function instance keeps its own cache, so an admin change can take up to CACHE_TTL_MS to reach
+// other instances. Callers that must see changes at once (signup, the domain admin tools) pass `fresh`.
+async function getSchoolConfig(options: { fresh?: boolean } = {}): Promise<Record<string, string[]>> {
   const now = Date.now();
-  if (cachedConfig && now - lastFetchMs < CACHE_TTL_MS) {
+  if (!options.fresh && cachedConfig && now - lastFetchMs < CACHE_TTL_MS) {
     return cachedConfig;
   }
 
@@ -78,9 +397,14 @@ async function getSchoolConfig(): Promise<Record<string, string[]>> {
     return {};
   }
 
-  const data = snapshot.data();
-  const config: Record<string, string[]> = {};
+  const config = parseSchoolConfig(snapshot.data());
+  cachedConfig = config;
+  lastFetchMs = now;
+  return config;
+}
 
+function parseSchoolConfig(data: admin.firestore.DocumentData | undefined): Record<string, string[]> {
+  const config: Record<string, string[]> = {};
   if (data) {
     Object.entries(data).forEach(([key, value]) => {
       if (Array.isArray(value)) {
@@ -88,23 +412,101 @@ async function getSchoolConfig(): Promise<Record<string, string[]>> {
       }
     });
   }
-
-  cachedConfig = config;
-  lastFetchMs = now;
   return config;
 }
 
+// Only reaches this instance; other instances pick up changes when their cache expires.
+const invalidateSchoolConfig = () => {
+  cachedConfig = null;
+  lastFetchMs = 0;
+};
+
+// Rules are exact domains ("university.edu") or wildcards ("*.university.edu", any subdomain but not the
+// domain itself). Exact rules win over wildcards, and the longest matching wildcard wins among those.
 function getSchoolId(email: string | undefined, config: Record<string, string[]>): string | null {
   if (!email) return null;
   const domain = email.split("@")[1]?.toLowerCase();
   if (!domain) return null;
 
-  for (const [schoolId, domains] of Object.entries(config)) {
-    if (domains.includes(domain)) {
-      return schoolId;
+  let wildcardMatch: { schoolId: string; length: number } | null = null;
+  for (const [schoolId, rules] of Object.entries(config)) {
+    for (const rule of rules) {
+      if (rule === domain) {
+        return schoolId;
+      }
+      if (rule.startsWith("*.") && domain.endsWith(rule.slice(1)) && (!wildcardMatch || rule.length > wildcardMatch.length)) {
+        wildcardMatch = { schoolId, length: rule.length };
+      }
     }
   }
-  return null;
+  return wildcardMatch?.schoolId ?? null;
+}
+
+async function requireSchoolCaller(request: CallableRequest, action: string): Promise<CallerContext> {
+  const uid = request.auth?.uid;
+  const email = request.auth?.token?.email;
+  if (!uid || !email) {
+    throw new HttpsError("unauthenticated", `Sign in to ${action}.`);
+  }
+
+  await assertNotSuspended(uid);
+
+  // Stamped at signup (or by backfillSchoolClaims); tokens minted before that fall back to the domain rules.
+  const claimedSchoolId = request.auth?.token?.schoolId;
+  const schoolId = typeof claimedSchoolId === "string" && claimedSchoolId
+    ? claimedSchoolId
+    : getSchoolId(email, await getSchoolConfig());
+  if (!schoolId) {
+    throw new HttpsError("permission-denied", "Your email does not belong to a supported school.");
+  }
+
+  return { uid, email, schoolId };
+}
+
+// Suspensions are read from Firestore rather than the token claim, which can stay stale for up to an hour.
+const suspensionRef = (userId: string) => admin.firestore().doc(`suspensions/${userId}`);
+
+async function assertNotSuspended(userId: string): Promise<void> {
+  const snapshot = await suspensionRef(userId).get();
+  if (snapshot.exists) {
+    throw new HttpsError("permission-denied", "Your account is suspended. Contact campus staff for help.");
+  }
+}
+
+// "admin" can do everything; "moderator" can act on users and trips but not on school config.
+const ADMIN_ROLE_PERMISSIONS: Record<AdminRole, AdminRole[]> = {
+  admin: ["admin", "moderator"],
+  moderator: ["moderator"],
+};
+
+async function requireAdmin(request: CallableRequest, required: AdminRole): Promise<{ uid: string; email: string | null }> {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Sign in to use admin tools.");
+  }
+  const role = request.auth?.token?.role as AdminRole | undefined;
+  if (!role || !ADMIN_ROLE_PERMISSIONS[role]?.includes(required)) {
+    throw new HttpsError("permission-denied", "You do not have permission to perform this action.");
+  }
+  await assertNotSuspended(uid);
+  return { uid, email: request.auth?.token?.email ?? null };
+}
+
+// Append-only: entries are only ever added, never updated or deleted.
+async function writeAuditLog(
+  actor: { uid: string; email: string | null },
+  action: string,
+  target: Record<string, unknown>,
+  details: Record<string, unknown> = {},
+): Promise<void> {
+  await admin.firestore().collection("adminAuditLog").add({
+    action,
+    actorId: actor.uid,
+    actorEmail: actor.email,
+    target,
+    details,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
 }
 
 export const restrictUserSignupByDomain = beforeUserCreated(async (event) => {
@@ -114,7 +516,7 @@ export const restrictUserSignupByDomain = beforeUserCreated(async (event) => {
     throw new HttpsError("invalid-argument", "Email is required for registration.");
   }
 
-  const config = await getSchoolConfig();
+  const config = await getSchoolConfig({ fresh: true });
   const schoolId = getSchoolId(user.email, config);
 
   if (!schoolId) {
@@ -124,7 +526,25 @@ export const restrictUserSignupByDomain = beforeUserCreated(async (event) => {
     );
   }
 
-  return;
+  // Blocking functions cannot receive a client token; Identity Platform scores sign-ups itself when
+  // reCAPTCHA Enterprise is enabled for the project.
+  const recaptchaScore = event.additionalUserInfo?.recaptchaScore;
+  if (typeof recaptchaScore === "number") {
+    await assertRecaptchaScore(recaptchaScore, "signup");
+  }
+
+  // Stops a suspended user from deleting their account and signing up again.
+  const suspended = await admin
+    .firestore()
+    .collection("suspensions")
+    .where("email", "==", user.email.toLowerCase())
+    .limit(1)
+    .get();
+  if (!suspended.empty) {
+    throw new HttpsError("permission-denied", "This account is suspended. Contact campus staff for help.");
+  }
+
+  return { customClaims: { schoolId } };
 });
 
 type CreatePairRequestPayload = {
@@ -134,6 +554,7 @@ type CreatePairRequestPayload = {
   requesterName?: unknown;
   requesterContactMethod?: unknown;
   requesterContactValue?: unknown;
+  recaptchaToken?: unknown;
 };
 
 
@@ -143,58 +564,215 @@ const isFiniteNonNegative = (value: unknown): value is number =>
 
 const isIsoString = (value: unknown): value is string => typeof value === "string" && value.length > 0;
 
-export const createPairRequest = onCall({ enforceAppCheck: true }, async (request) => {
-  const uid = request.auth?.uid;
-  const email = request.auth?.token?.email;
-  if (!uid || !email) {
-    throw new HttpsError("unauthenticated", "Sign in to submit a pairing request.");
+const MAX_ACTIVE_TRIPS = 5;
+const MAX_TRIP_SEATS = 6;
+
+// Smallest to largest. A bag fits in a slot of its own size or any larger one.
+const LUGGAGE_KEYS: (keyof Luggage)[] = ["carryOnSmall", "carryOnLarge", "checkedSmall", "checkedLarge"];
+
+// Trips used to store kebab-case keys; accepted on input and rewritten by migrateLuggageModel.
+const LEGACY_LUGGAGE_KEYS: Record<string, keyof Luggage> = {
+  "carry-on-small": "carryOnSmall",
+  "carry-on-large": "carryOnLarge",
+  "checked-small": "checkedSmall",
+  "checked-large": "checkedLarge",
+};
+
+const EMPTY_LUGGAGE: Luggage = { carryOnSmall: 0, carryOnLarge: 0, checkedSmall: 0, checkedLarge: 0 };
+
+// Returns canonical luggage for either key style, or null when any size is missing or invalid.
+function parseLuggage(value: unknown): Luggage | null {
+  if (!value || typeof value !== "object") return null;
+  const input = value as Record<string, unknown>;
+  const parsed = { ...EMPTY_LUGGAGE };
+
+  for (const key of LUGGAGE_KEYS) {
+    const legacyKey = Object.keys(LEGACY_LUGGAGE_KEYS).find((k) => LEGACY_LUGGAGE_KEYS[k] === key);
+    const count = input[key] ?? (legacyKey ? input[legacyKey] : undefined);
+    if (!isFiniteNonNegative(count)) return null;
+    parsed[key] = count;
   }
+  return parsed;
+}
 
-  const config = await getSchoolConfig();
-  const schoolId = getSchoolId(email, config);
-  if (!schoolId) {
-    throw new HttpsError("permission-denied", "Your email does not belong to a supported school.");
+// Lenient read of stored luggage: missing or malformed sizes count as zero.
+const normalizeLuggage = (value: unknown): Luggage => {
+  if (!value || typeof value !== "object") return { ...EMPTY_LUGGAGE };
+  const input = value as Record<string, unknown>;
+  const normalized = { ...EMPTY_LUGGAGE };
+  Object.entries(input).forEach(([key, count]) => {
+    const canonical = (LUGGAGE_KEYS as string[]).includes(key) ? key as keyof Luggage : LEGACY_LUGGAGE_KEYS[key];
+    if (canonical && isFiniteNonNegative(count)) {
+      normalized[canonical] = count;
+    }
+  });
+  return normalized;
+};
+
+const isLegacyLuggage = (value: unknown): boolean =>
+  !!value && typeof value === "object" && Object.keys(value).some((key) => key in LEGACY_LUGGAGE_KEYS);
+
+const sumLuggage = (items: Luggage[]): Luggage =>
+  items.reduce((total, item) => {
+    const next = { ...total };
+    LUGGAGE_KEYS.forEach((key) => {
+      next[key] += item[key];
+    });
+    return next;
+  }, { ...EMPTY_LUGGAGE });
+
+// Fills slots from the largest size down; unused larger slots carry over to smaller bags.
+const luggageFits = (load: Luggage, capacity: Luggage): boolean => {
+  let spare = 0;
+  for (const key of [...LUGGAGE_KEYS].reverse()) {
+    spare += capacity[key] - load[key];
+    if (spare < 0) return false;
   }
+  return true;
+};
 
-  const { tripId, luggage, note, requesterName, requesterContactMethod, requesterContactValue } = request.data as CreatePairRequestPayload;
+// Host bags plus every confirmed guest's bags, plus any extra riders being considered.
+const getTripLuggageLoad = (trip: Pick<TripData, "luggage" | "guests" | "guest">, extra: Luggage[] = []): Luggage =>
+  sumLuggage([
+    normalizeLuggage(trip.luggage),
+    ...getTripGuests(trip).map((guest) => normalizeLuggage(guest.luggage)),
+    ...extra,
+  ]);
 
-  if (!tripId || typeof tripId !== "string") {
-    throw new HttpsError("invalid-argument", "tripId is required.");
+const formatLuggage = (luggage: Luggage): string =>
+  `${luggage.carryOnSmall} small carry-on, ${luggage.carryOnLarge} large carry-on, ` +
+  `${luggage.checkedSmall} small checked, ${luggage.checkedLarge} large checked`;
+
+const getTripSeats = (trip: TripData): number => trip.seats ?? 1;
+
+const getTripGuests = (trip: Pick<TripData, "guests" | "guest">): TripGuest[] => trip.guests ?? (trip.guest ? [trip.guest] : []);
+
+const isLocation = (value: unknown): value is { id: string; name: string } =>
+  !!value && typeof value === "object" && !!(value as any).id && !!(value as any).name;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+const normalizeEmail = (value: string): string => {
+  const email = value.trim().toLowerCase();
+  if (email.length > 254 || !EMAIL_PATTERN.test(email)) {
+    throw new HttpsError("invalid-argument", "Contact email is not a valid email address.");
+  }
+  return email;
+};
+
+// Accepts common punctuation; bare 10-digit numbers are read as North American.
+const normalizePhone = (value: string): string => {
+  let phone = value.trim().replace(/[\s().-]/g, "");
+  if (phone.startsWith("00")) phone = `+${phone.slice(2)}`;
+  if (/^\d{10}$/.test(phone)) phone = `+1${phone}`;
+  if (/^1\d{10}$/.test(phone)) phone = `+${phone}`;
+  if (!E164_PATTERN.test(phone)) {
+    throw new HttpsError("invalid-argument", "Contact phone must be a full number, e.g. +15551234567.");
+  }
+  return phone;
+};
+
+// What other users see before the pairing is accepted, e.g. "***-***-1234" or "j***@school.edu".
+const maskContact = (method: string | undefined, value: string | null | undefined): string | null => {
+  if (!value) return null;
+  if (method === "phone") return `***-***-${value.slice(-4)}`;
+  if (method === "email") {
+    const [local, domain] = value.split("@");
+    return `${local.slice(0, 1)}***@${domain ?? ""}`;
   }
+  return null;
+};
 
-  // Validate contact method
+// Falls back to "chat" for unknown methods, and to the caller's auth email when "email" is chosen without a value.
+function resolveContact(
+  methodInput: unknown,
+  valueInput: unknown,
+  authEmail: string | undefined,
+): { method: string; contactValue: string | null; hint: string | null } {
   const validMethods = ["chat", "email", "phone"];
-  const method = (typeof requesterContactMethod === "string" && validMethods.includes(requesterContactMethod))
-    ? requesterContactMethod
+  const method = (typeof methodInput === "string" && validMethods.includes(methodInput))
+    ? methodInput
     : "chat";
 
   let contactValue: string | null = null;
   if (method === "email" || method === "phone") {
-    if (typeof requesterContactValue !== "string" || !requesterContactValue.trim()) {
-      // If email is selected but not provided, try to use auth email
-      if (method === "email" && request.auth?.token?.email) {
-        contactValue = request.auth.token.email;
+    if (typeof valueInput !== "string" || !valueInput.trim()) {
+      if (method === "email" && authEmail) {
+        contactValue = normalizeEmail(authEmail);
       } else {
         throw new HttpsError("invalid-argument", `Contact value is required for ${method}.`);
       }
     } else {
-      contactValue = requesterContactValue.trim();
+      contactValue = method === "email" ? normalizeEmail(valueInput) : normalizePhone(valueInput);
     }
   }
 
-  const luggageInput = luggage as Record<string, unknown> | undefined;
-  const carryOnSmall = luggageInput?.carryOnSmall;
-  const carryOnLarge = luggageInput?.carryOnLarge;
-  const checkedSmall = luggageInput?.checkedSmall;
-  const checkedLarge = luggageInput?.checkedLarge;
+  return { method, contactValue, hint: maskContact(method, contactValue) };
+}
+
+const privateContactRef = (parent: admin.firestore.DocumentReference, id: string) => parent.collection("private").doc(id);
+
+// Reads a private contact, falling back to the plain fields written before contacts moved.
+async function readContact(
+  parent: admin.firestore.DocumentReference,
+  id: string,
+  legacy: { method?: string; value?: string | null },
+): Promise<ContactRecord> {
+  const snapshot = await privateContactRef(parent, id).get();
+  const data = snapshot.data() as ContactRecord | undefined;
+  return data ?? { method: legacy.method ?? "chat", value: legacy.value ?? null };
+}
+
+const blockRef = (schoolId: string, blockerId: string, blockedId: string) =>
+  admin.firestore().doc(`schools/${schoolId}/blocks/${blockerId}_${blockedId}`);
+
+// True when either user has blocked the other.
+async function isBlockedBetween(
+  schoolId: string,
+  userA: string,
+  userB: string,
+  txn?: admin.firestore.Transaction,
+): Promise<boolean> {
+  const refs = [blockRef(schoolId, userA, userB), blockRef(schoolId, userB, userA)];
+  const snapshots = txn ? await Promise.all(refs.map((ref) => txn.get(ref))) : await admin.firestore().getAll(...refs);
+  return snapshots.some((snapshot) => snapshot.exists);
+}
+
+// Open or paired trips of this host whose window has not ended yet.
+async function countActiveTrips(schoolId: string, hostId: string, excludeTripId?: string): Promise<number> {
+  const active = await admin
+    .firestore()
+    .collection("schools")
+    .doc(schoolId)
+    .collection("trips")
+    .where("hostId", "==", hostId)
+    .where("status", "in", ["open", "paired"])
+    .where("departureEnd", ">=", new Date())
+    .get();
+
+  return active.docs.filter((doc) => doc.id !== excludeTripId).length;
+}
+
+export const createPairRequest = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "submit a pairing request");
+
+  const { tripId, luggage, note, requesterName, requesterContactMethod, requesterContactValue, recaptchaToken } =
+    request.data as CreatePairRequestPayload;
+  await assertRecaptcha(recaptchaToken, "createPairRequest");
+
+  if (!tripId || typeof tripId !== "string") {
+    throw new HttpsError("invalid-argument", "tripId is required.");
+  }
+
+  const { method, contactValue, hint } = resolveContact(
+    requesterContactMethod,
+    requesterContactValue,
+    request.auth?.token?.email,
+  );
 
-  if (
-    !luggageInput ||
-    !isFiniteNonNegative(carryOnSmall) ||
-    !isFiniteNonNegative(carryOnLarge) ||
-    !isFiniteNonNegative(checkedSmall) ||
-    !isFiniteNonNegative(checkedLarge)
-  ) {
+  const requesterLuggage = parseLuggage(luggage);
+  if (!requesterLuggage) {
     throw new HttpsError("invalid-argument", "Luggage counts must be non-negative numbers.");
   }
 
@@ -203,21 +781,7 @@ export const createPairRequest = onCall({ enforceAppCheck: true }, async (reques
     throw new HttpsError("not-found", "Trip not found.");
   }
 
-  const tripData = tripSnapshot.data() as {
-    hostId?: string;
-    hostNickname?: string;
-    status?: string;
-    departureStart?: admin.firestore.Timestamp;
-    departureEnd?: admin.firestore.Timestamp;
-    origin: {
-      name: string;
-    }
-    destination: {
-      name: string;
-    }
-    timezone?: string;
-    schoolId?: string; // Implicitly known
-  };
+  const tripData = tripSnapshot.data() as Partial<TripData> & Pick<TripData, "origin" | "destination">;
 
   if (!tripData.hostId) {
     throw new HttpsError("failed-precondition", "Trip host is missing.");
@@ -231,6 +795,14 @@ export const createPairRequest = onCall({ enforceAppCheck: true }, async (reques
     throw new HttpsError("failed-precondition", "You are the host for this trip.");
   }
 
+  if (await isBlockedBetween(schoolId, uid, tripData.hostId)) {
+    throw new HttpsError("permission-denied", "You can't send a pairing request for this trip.");
+  }
+
+  if (tripData.vehicleCapacity && !luggageFits(getTripLuggageLoad(tripData, [requesterLuggage]), tripData.vehicleCapacity)) {
+    throw new HttpsError("failed-precondition", "Your luggage would not fit in this trip's vehicle alongside the other riders' bags.");
+  }
+
   const existing = await admin
     .firestore()
     .collection("schools")
@@ -246,24 +818,34 @@ export const createPairRequest = onCall({ enforceAppCheck: true }, async (reques
     throw new HttpsError("already-exists", "You already have an active pairing request for this trip.");
   }
 
+  // Charged only once the request is valid, so fixing form errors doesn't use up the limit.
+  await enforceRateLimit(schoolId, uid, "createPairRequest");
+
   const requesterDisplayName = typeof requesterName === "string" && requesterName.trim().length > 0
     ? requesterName.trim()
     : request.auth?.token?.name ?? "Anonymous";
 
-  const docRef = await admin.firestore().collection("schools").doc(schoolId).collection("pairRequests").add({
+  const requesterReputation = await getReputationSummary(schoolId, uid);
+
+  const docRef = admin.firestore().collection("schools").doc(schoolId).collection("pairRequests").doc();
+  const requestBatch = admin.firestore().batch();
+  requestBatch.set(docRef, {
     tripId,
     hostId: tripData.hostId,
     hostNickname: tripData.hostNickname ?? "Host",
     requesterId: uid,
     requesterName: requesterDisplayName,
     requesterContactMethod: method,
-    requesterContactValue: contactValue,
-    luggage: { carryOnSmall, carryOnLarge, checkedSmall, checkedLarge },
+    requesterContactHint: hint,
+    luggage: requesterLuggage,
     note: typeof note === "string" && note.trim() ? note.trim() : null,
+    requesterReputation,
     status: "pending",
     createdAt: admin.firestore.FieldValue.serverTimestamp(),
     updatedAt: admin.firestore.FieldValue.serverTimestamp(),
   });
+  requestBatch.set(privateContactRef(docRef, "contact"), { method, value: contactValue } satisfies ContactRecord);
+  await requestBatch.commit();
 
   const pendingSnapshot = await admin
     .firestore()
@@ -274,46 +856,18 @@ export const createPairRequest = onCall({ enforceAppCheck: true }, async (reques
     .where("status", "==", "pending")
     .get();
 
-  const tripUrl = `${frontendBaseUrl}/trips/${tripId}`;
-
   try {
-    const hostRecord = await admin.auth().getUser(tripData.hostId);
-    const hostEmail = hostRecord.email;
-
-    if (hostEmail) {
-      const origin = tripData.origin.name;
-      const destination = tripData.destination.name;
-      const tripTimezone = tripData.timezone || TIMEZONE;
-      const dateOptions: Intl.DateTimeFormatOptions = {
-        timeZone: tripTimezone,
-        year: "numeric",
-        month: "short",
-        day: "numeric",
-        hour: "numeric",
-        minute: "2-digit",
-        timeZoneName: "shortOffset",
-      };
-
-      const start = tripData.departureStart?.toDate().toLocaleString("en-US", dateOptions) ?? "";
-      const end = tripData.departureEnd?.toDate().toLocaleString("en-US", { ...dateOptions, timeZoneName: undefined }) ?? "";
-
-      await admin.firestore().collection("mail").add({
-        to: hostEmail,
-        message: {
-          subject: `New pairing request for your trip ${origin} → ${destination}`,
-          html: `
-            <p>Hi ${tripData.hostNickname ?? ""},</p>
-            <p><strong>${requesterDisplayName}</strong> just sent a pairing request.</p>
-            <ul>
-              <li>Route: ${origin} → ${destination}</li>
-              <li>Window: ${start} – ${end}</li>
-              <li>Pending requests awaiting action: ${pendingSnapshot.size}</li>
-            </ul>
-            <p><a href="${tripUrl}">Open trip requests</a></p>
-          `,
-        },
-      });
-    }
+    await dispatchNotification({
+      userId: tripData.hostId,
+      event: "pairRequestReceived",
+      message: pairRequestReceivedEmail({
+        hostNickname: tripData.hostNickname ?? "",
+        requesterName: requesterDisplayName,
+        trip: getCommonEmailData(tripData, tripId, await getSchoolTimezone(schoolId)),
+        reputation: formatReputation(requesterReputation),
+        pendingCount: pendingSnapshot.size,
+      }),
+    });
   } catch (emailError) {
     console.warn("Email dispatch failed", emailError);
   }
@@ -324,134 +878,527 @@ export const createPairRequest = onCall({ enforceAppCheck: true }, async (reques
   };
 });
 
-export const createTrip = onCall({ enforceAppCheck: true }, async (request) => {
-  const uid = request.auth?.uid;
-  const email = request.auth?.token?.email;
-  if (!uid || !email) {
-    throw new HttpsError("unauthenticated", "Sign in to create a trip.");
+// Schools with a location catalog only accept its locations; others keep accepting any { id, name } object.
+function resolveTripLocation(settings: SchoolSettings, value: unknown, field: string): TripData["origin"] {
+  if (settings.locations.length === 0) {
+    if (!isLocation(value)) {
+      throw new HttpsError("invalid-argument", `${field} is required and must be a valid location object.`);
+    }
+    return { id: String(value.id), name: String(value.name) };
   }
 
-  const config = await getSchoolConfig();
-  const schoolId = getSchoolId(email, config);
-  if (!schoolId) {
-    throw new HttpsError("permission-denied", "Your email does not belong to a supported school.");
+  const location = findSchoolLocation(settings, value);
+  if (!location) {
+    throw new HttpsError("invalid-argument", `${field} must be one of your school's approved locations.`);
   }
+  return location;
+}
 
-  const { origin, destination, departureStart, departureEnd, luggage, note, hostNickname, hostContactMethod, hostContactValue } =
-    request.data as CreateTripPayload;
+// Validates everything a host picks for a trip except its departure window.
+function parseTripTemplate(
+  data: Omit<CreateTripPayload, "departureStart" | "departureEnd">,
+  settings: SchoolSettings,
+  auth: CallableRequest["auth"],
+): { template: TripTemplate; contact: ContactRecord } {
+  const { seats, vehicleCapacity, origin, destination, luggage, note, hostNickname } = data;
 
-  if (!origin || typeof origin !== "object" || !(origin as any).id || !(origin as any).name) {
-    throw new HttpsError("invalid-argument", "origin is required and must be a valid location object.");
-  }
-  if (!destination || typeof destination !== "object" || !(destination as any).id || !(destination as any).name) {
-    throw new HttpsError("invalid-argument", "destination is required and must be a valid location object.");
+  if (seats !== undefined && (!Number.isInteger(seats) || (seats as number) < 1 || (seats as number) > MAX_TRIP_SEATS)) {
+    throw new HttpsError("invalid-argument", `seats must be a whole number between 1 and ${MAX_TRIP_SEATS}.`);
   }
-  if (!isIsoString(departureStart) || !isIsoString(departureEnd)) {
-    throw new HttpsError("invalid-argument", "departureStart and departureEnd are required ISO strings.");
-  }
-
-  // Validate contact method
-  const validMethods = ["chat", "email", "phone"];
-  const method = (typeof hostContactMethod === "string" && validMethods.includes(hostContactMethod))
-    ? hostContactMethod
-    : "chat";
 
-  let contactValue: string | null = null;
-  if (method === "email" || method === "phone") {
-    if (typeof hostContactValue !== "string" || !hostContactValue.trim()) {
-      // If email is selected but not provided, try to use auth email
-      if (method === "email" && request.auth?.token?.email) {
-        contactValue = request.auth.token.email;
-      } else {
-        throw new HttpsError("invalid-argument", `Contact value is required for ${method}.`);
-      }
-    } else {
-      contactValue = hostContactValue.trim();
-    }
+  const tripOrigin = resolveTripLocation(settings, origin, "origin");
+  const tripDestination = resolveTripLocation(settings, destination, "destination");
+  if (tripOrigin.id !== undefined && tripOrigin.id === tripDestination.id) {
+    throw new HttpsError("invalid-argument", "origin and destination must be different locations.");
   }
 
-  const luggageInput = luggage as Record<string, unknown> | undefined;
-  const luggageValid =
-    luggageInput &&
-    ["carry-on-small", "carry-on-large", "checked-small", "checked-large"].every(
-      (key) => typeof luggageInput[key] === "number" && Number.isFinite(luggageInput[key] as number) && (luggageInput[key] as number) >= 0,
-    );
+  const { method, contactValue, hint } = resolveContact(data.hostContactMethod, data.hostContactValue, auth?.token?.email);
 
-  if (!luggageValid) {
+  const hostLuggage = parseLuggage(luggage);
+  if (!hostLuggage) {
     throw new HttpsError("invalid-argument", "Luggage must include numeric counts for each size.");
   }
 
-  // Limit: max 5 active trips (open or paired)
-  const active = await admin
-    .firestore()
-    .collection("schools")
-    .doc(schoolId)
-    .collection("trips")
-    .where("hostId", "==", uid)
-    .where("status", "in", ["open", "paired"])
-    .where("departureEnd", ">=", new Date())
-    .get();
+  const capacity = vehicleCapacity === undefined || vehicleCapacity === null ? null : parseLuggage(vehicleCapacity);
+  if (vehicleCapacity !== undefined && vehicleCapacity !== null && !capacity) {
+    throw new HttpsError("invalid-argument", "vehicleCapacity must include numeric counts for each size.");
+  }
+  if (capacity && !luggageFits(hostLuggage, capacity)) {
+    throw new HttpsError("invalid-argument", "Your own luggage exceeds the vehicle capacity.");
+  }
+
+  return {
+    template: {
+      hostNickname: typeof hostNickname === "string" && hostNickname.trim() ? hostNickname.trim() : auth?.token?.name ?? "Host",
+      hostContactMethod: method,
+      hostContactHint: hint,
+      origin: tripOrigin,
+      destination: tripDestination,
+      luggage: hostLuggage,
+      vehicleCapacity: capacity,
+      note: typeof note === "string" && note.trim() ? note.trim() : null,
+      seats: (seats as number | undefined) ?? 1,
+    },
+    contact: { method, value: contactValue },
+  };
+}
+
+const newTripData = (hostId: string, template: TripTemplate, timezone: string, start: Date, end: Date) => ({
+  hostId,
+  ...template,
+  timezone,
+  departureStart: start,
+  departureEnd: end,
+  status: "open",
+  guests: [],
+  createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+});
 
-  if (active.size >= 5) {
+export const createTrip = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "create a trip");
+
+  const data = request.data as CreateTripPayload;
+  await assertRecaptcha(data.recaptchaToken, "createTrip");
+
+  const settings = await getSchoolSettings(schoolId);
+  const { template, contact } = parseTripTemplate(data, settings, request.auth);
+  const { start: departureStartDate, end: departureEndDate } =
+    assertDepartureWindow(data.departureStart, data.departureEnd, settings.scheduling, settings.timezone);
+
+  // Limit: max 5 active trips (open or paired)
+  if (await countActiveTrips(schoolId, uid) >= MAX_ACTIVE_TRIPS) {
     throw new HttpsError(
       "resource-exhausted",
       "You can host up to 5 active trips. Complete or cancel one before creating a new trip.",
     );
   }
+  await enforceRateLimit(schoolId, uid, "createTrip");
 
-  const departureStartDate = new Date(departureStart as string);
-  const departureEndDate = new Date(departureEnd as string);
-
-  const docRef = await admin.firestore().collection("schools").doc(schoolId).collection("trips").add({
-    hostId: uid,
-    hostNickname: typeof hostNickname === "string" && hostNickname.trim() ? hostNickname.trim() : request.auth?.token?.name ?? "Host",
-    hostContactMethod: method,
-    hostContactValue: contactValue,
-    origin,
-    destination,
-    departureStart: departureStartDate,
-    departureEnd: departureEndDate,
-    luggage: luggageInput,
-    note: typeof note === "string" && note.trim() ? note.trim() : null,
-    status: "open",
-    guest: null,
-    createdAt: admin.firestore.FieldValue.serverTimestamp(),
-    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-  });
+  const docRef = admin.firestore().collection("schools").doc(schoolId).collection("trips").doc();
+  const tripBatch = admin.firestore().batch();
+  tripBatch.set(docRef, newTripData(uid, template, settings.timezone, departureStartDate, departureEndDate));
+  tripBatch.set(privateContactRef(docRef, uid), contact);
+  await tripBatch.commit();
 
   return { id: docRef.id };
 });
 
+const SERIES_LEAD_DAYS = 14;
+const MAX_SERIES_DAYS = 180;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
 
+const tripSeriesRef = (schoolId: string, seriesId: string) =>
+  admin.firestore().doc(`schools/${schoolId}/tripSeries/${seriesId}`);
 
-export const acceptPairRequest = onCall({ enforceAppCheck: true }, async (request) => {
-  const uid = request.auth?.uid;
-  const email = request.auth?.token?.email;
-  if (!uid || !email) {
-    throw new HttpsError("unauthenticated", "Sign in to accept pairing requests.");
-  }
+// Creates a series of identical trips on a recurrence, e.g. every Friday at 15:00 until the end of term.
+// The first SERIES_LEAD_DAYS of trips are generated right away; generateSeriesTrips keeps the horizon filled.
+export const createTripSeries = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "create a trip series");
 
-  const config = await getSchoolConfig();
-  const schoolId = getSchoolId(email, config);
-  if (!schoolId) {
-    throw new HttpsError("permission-denied", "Your email does not belong to a supported school.");
-  }
+  const { template: templateInput, recurrence, startDate, endDate, departureTime, windowMinutes, recaptchaToken } =
+    request.data as CreateTripSeriesPayload;
+  await assertRecaptcha(recaptchaToken, "createTripSeries");
 
-  const { requestId } = request.data as AcceptPairRequestPayload;
-  if (!requestId || typeof requestId !== "string") {
-    throw new HttpsError("invalid-argument", "requestId is required.");
+  if (!templateInput || typeof templateInput !== "object") {
+    throw new HttpsError("invalid-argument", "template is required.");
+  }
+  if (!isLocalDate(startDate) || !isLocalDate(endDate) || endDate < startDate) {
+    throw new HttpsError("invalid-argument", "startDate and endDate must be YYYY-MM-DD dates, in order.");
+  }
+  if (endDate > addDays(startDate, MAX_SERIES_DAYS)) {
+    throw new HttpsError("invalid-argument", `A series can span at most ${MAX_SERIES_DAYS} days.`);
+  }
+  if (typeof departureTime !== "string" || !TIME_PATTERN.test(departureTime)) {
+    throw new HttpsError("invalid-argument", "departureTime must be a 24-hour HH:MM time.");
+  }
+
+  const settings = await getSchoolSettings(schoolId);
+  if (endDate < localDate(new Date(), settings.timezone)) {
+    throw new HttpsError("invalid-argument", "endDate has already passed.");
+  }
+  if (!Number.isInteger(windowMinutes) || (windowMinutes as number) < 1 ||
+    (windowMinutes as number) > settings.scheduling.maxWindowHours * 60) {
+    throw new HttpsError(
+      "invalid-argument",
+      `windowMinutes must be a whole number up to ${settings.scheduling.maxWindowHours * 60}.`,
+    );
+  }
+  const rule = parseRecurrenceRule(recurrence, startDate);
+  if (listOccurrenceDates(rule, startDate, startDate, endDate).length === 0) {
+    throw new HttpsError("invalid-argument", "The recurrence has no dates between startDate and endDate.");
+  }
+  const { template, contact } = parseTripTemplate(templateInput, settings, request.auth);
+  await enforceRateLimit(schoolId, uid, "createTripSeries");
+
+  const seriesRef = admin.firestore().collection("schools").doc(schoolId).collection("tripSeries").doc();
+  const series: TripSeriesData = {
+    hostId: uid,
+    template,
+    recurrence: rule,
+    startDate,
+    endDate,
+    departureTime,
+    windowMinutes: windowMinutes as number,
+    timezone: settings.timezone,
+    status: "active",
+    skippedDates: [],
+  };
+  const batch = admin.firestore().batch();
+  batch.set(seriesRef, { ...series, createdAt: admin.firestore.FieldValue.serverTimestamp() });
+  batch.set(privateContactRef(seriesRef, uid), contact);
+  await batch.commit();
+
+  const result = await generateSeriesOccurrences(schoolId, seriesRef, series);
+  return { id: seriesRef.id, ...result };
+});
+
+// Skips one occurrence. If its trip was already generated, the trip is cancelled like any other,
+// which notifies requesters; other occurrences are untouched.
+export const skipTripSeriesOccurrence = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "change a trip series");
+
+  const { seriesId, date, reason } = request.data as TripSeriesActionPayload;
+  if (!seriesId || typeof seriesId !== "string") {
+    throw new HttpsError("invalid-argument", "seriesId is required.");
+  }
+  if (!isLocalDate(date)) {
+    throw new HttpsError("invalid-argument", "date must be a YYYY-MM-DD date.");
+  }
+
+  const seriesRef = tripSeriesRef(schoolId, seriesId);
+  const seriesSnap = await seriesRef.get();
+  const series = seriesSnap.data() as TripSeriesData | undefined;
+  if (!series) {
+    throw new HttpsError("not-found", "Trip series not found.");
+  }
+  if (series.hostId !== uid) {
+    throw new HttpsError("permission-denied", "Only the host can change this series.");
+  }
+  if (listOccurrenceDates(series.recurrence, series.startDate, date, date).length === 0 || date > series.endDate) {
+    throw new HttpsError("invalid-argument", "That date is not part of this series.");
+  }
+
+  await seriesRef.update({ skippedDates: admin.firestore.FieldValue.arrayUnion(date) });
+
+  const tripId = `${seriesId}_${date}`;
+  const tripSnap = await admin.firestore().doc(`schools/${schoolId}/trips/${tripId}`).get();
+  const tripStatus = tripSnap.get("status") as TripStatus | undefined;
+  if (tripStatus === "open" || tripStatus === "paired") {
+    await cancelTripAs(schoolId, tripId, reason, { hostId: uid });
+    return { ok: true, cancelledTripId: tripId };
+  }
+  return { ok: true, cancelledTripId: null };
+});
+
+// Stops generating new occurrences. Trips already generated stay up; cancel them individually if needed.
+export const cancelTripSeries = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "cancel a trip series");
+
+  const { seriesId } = request.data as TripSeriesActionPayload;
+  if (!seriesId || typeof seriesId !== "string") {
+    throw new HttpsError("invalid-argument", "seriesId is required.");
+  }
+
+  const seriesRef = tripSeriesRef(schoolId, seriesId);
+  const seriesSnap = await seriesRef.get();
+  if (!seriesSnap.exists) {
+    throw new HttpsError("not-found", "Trip series not found.");
+  }
+  if (seriesSnap.get("hostId") !== uid) {
+    throw new HttpsError("permission-denied", "Only the host can cancel this series.");
+  }
+
+  await seriesRef.update({ status: "cancelled", updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+  return { ok: true };
+});
+
+// Creates the series' missing trips up to SERIES_LEAD_DAYS ahead. Trip ids are derived from the date, so
+// re-runs never duplicate an occurrence and a cancelled occurrence is never recreated. Occurrences held back
+// by the active-trip limit are retried on the next run while their date is still ahead.
+async function generateSeriesOccurrences(
+  schoolId: string,
+  seriesRef: admin.firestore.DocumentReference,
+  series: TripSeriesData,
+): Promise<{ created: number; deferred: number }> {
+  const db = admin.firestore();
+  const today = localDate(new Date(), series.timezone);
+  if (today > series.endDate) {
+    await seriesRef.update({ status: "ended" });
+    return { created: 0, deferred: 0 };
+  }
+
+  const horizon = addDays(today, SERIES_LEAD_DAYS) < series.endDate ? addDays(today, SERIES_LEAD_DAYS) : series.endDate;
+  const dates = listOccurrenceDates(series.recurrence, series.startDate, today, horizon)
+    .filter((date) => !series.skippedDates.includes(date));
+  if (dates.length === 0) {
+    return { created: 0, deferred: 0 };
+  }
+
+  const { scheduling } = await getSchoolSettings(schoolId);
+  const contactSnap = await privateContactRef(seriesRef, series.hostId).get();
+  const contact = (contactSnap.data() as ContactRecord | undefined) ?? { method: "chat", value: null };
+  let activeTrips = await countActiveTrips(schoolId, series.hostId);
+  let created = 0;
+  let deferred = 0;
+
+  for (const date of dates) {
+    const tripRef = db.doc(`schools/${schoolId}/trips/${seriesRef.id}_${date}`);
+    const start = zonedDateTime(date, series.departureTime, series.timezone);
+    const end = new Date(start.getTime() + series.windowMinutes * 60 * 1000);
+    const { errors } = validateDepartureWindow(start, end, scheduling, series.timezone);
+    if (errors.length > 0) {
+      // Past, too close, too far ahead or on a blackout date; the far-ahead case is picked up later.
+      continue;
+    }
+    if (activeTrips >= MAX_ACTIVE_TRIPS) {
+      deferred += 1;
+      continue;
+    }
+
+    const wasCreated = await db.runTransaction(async (txn) => {
+      const existing = await txn.get(tripRef);
+      if (existing.exists) return false;
+      txn.set(tripRef, {
+        ...newTripData(series.hostId, series.template, series.timezone, start, end),
+        seriesId: seriesRef.id,
+        occurrenceDate: date,
+      });
+      txn.set(privateContactRef(tripRef, series.hostId), contact);
+      return true;
+    });
+    if (wasCreated) {
+      created += 1;
+      activeTrips += 1;
+    }
+  }
+
+  return { created, deferred };
+}
+
+// Scheduled: every day at 02:30. Tops up every active series.
+export const generateSeriesTrips = onSchedule({
+  schedule: "30 2 * * *",
+  timeZone: DEFAULT_TIMEZONE,
+  retryCount: 3,
+}, async () => {
+  const db = admin.firestore();
+  const seriesSnap = await db.collectionGroup("tripSeries").where("status", "==", "active").get();
+
+  let created = 0;
+  let deferred = 0;
+  let failures = 0;
+  for (const doc of seriesSnap.docs) {
+    const schoolId = doc.ref.parent.parent?.id;
+    const series = doc.data() as TripSeriesData;
+    if (!schoolId) continue;
+    try {
+      // Suspended hosts keep their series but get no new trips.
+      if ((await suspensionRef(series.hostId).get()).exists) continue;
+      const result = await generateSeriesOccurrences(schoolId, doc.ref, series);
+      created += result.created;
+      deferred += result.deferred;
+    } catch (err) {
+      failures += 1;
+      console.error(`Series generation failed for ${doc.ref.path}`, err);
+    }
+  }
+
+  console.log(`Generated ${created} trips for ${seriesSnap.size} series; ${deferred} deferred by the active-trip limit`);
+  if (failures > 0) {
+    throw new Error(`${failures} series failed to generate; retrying.`);
+  }
+});
+
+export const updateTrip = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "edit a trip");
+
+  const { tripId, departureStart, departureEnd, luggage, note, hostContactMethod, hostContactValue } =
+    request.data as UpdateTripPayload;
+
+  if (!tripId || typeof tripId !== "string") {
+    throw new HttpsError("invalid-argument", "tripId is required.");
+  }
+  const nextLuggage = luggage !== undefined ? parseLuggage(luggage) : null;
+  if (luggage !== undefined && !nextLuggage) {
+    throw new HttpsError("invalid-argument", "Luggage must include numeric counts for each size.");
+  }
+
+  const tripRef = admin.firestore().doc(`schools/${schoolId}/trips/${tripId}`);
+  const tripSnap = await tripRef.get();
+  if (!tripSnap.exists) {
+    throw new HttpsError("not-found", "Trip not found.");
+  }
+  const tripData = tripSnap.data() as TripData;
+  if (tripData.hostId !== uid) {
+    throw new HttpsError("permission-denied", "Only the host can edit this trip.");
+  }
+  if (tripData.status !== "open" && tripData.status !== "paired") {
+    throw new HttpsError("failed-precondition", "Only open or paired trips can be edited.");
+  }
+
+  const currentStart = tripData.departureStart.toDate();
+  const currentEnd = tripData.departureEnd.toDate();
+  let nextStart = currentStart;
+  let nextEnd = currentEnd;
+  if (departureStart !== undefined || departureEnd !== undefined) {
+    const settings = await getSchoolSettings(schoolId);
+    // Keeping the current start is always allowed, even once it is inside the lead time.
+    const startMoved = departureStart !== undefined && new Date(departureStart as string).getTime() !== currentStart.getTime();
+    ({ start: nextStart, end: nextEnd } = assertDepartureWindow(
+      departureStart ?? currentStart,
+      departureEnd ?? currentEnd,
+      settings.scheduling,
+      tripData.timezone ?? settings.timezone,
+      { checkLeadTime: startMoved },
+    ));
+  }
+
+  const now = Date.now();
+  // Edits other than moving the window are pointless once the trip is over, and would email its riders.
+  if (nextEnd.getTime() <= now) {
+    throw new HttpsError("failed-precondition", "This trip's departure window has ended. Move it to a new window to edit it.");
+  }
+
+  // A trip whose window had already passed does not count toward the limit, so moving it
+  // back into the future must respect the cap like a new trip would.
+  const reactivated = currentEnd.getTime() < now && nextEnd.getTime() > now;
+  if (reactivated && await countActiveTrips(schoolId, uid, tripId) >= MAX_ACTIVE_TRIPS) {
+    throw new HttpsError(
+      "resource-exhausted",
+      "You can host up to 5 active trips. Complete or cancel one before reactivating this trip.",
+    );
+  }
+
+  const updates: Record<string, unknown> = {};
+  const windowChanged = nextStart.getTime() !== currentStart.getTime() || nextEnd.getTime() !== currentEnd.getTime();
+  if (windowChanged) {
+    updates.departureStart = nextStart;
+    updates.departureEnd = nextEnd;
+    // Reminders are keyed to the old departure time.
+    updates.remindersSent = admin.firestore.FieldValue.delete();
+  }
+
+  const currentLuggage = normalizeLuggage(tripData.luggage);
+  const luggageChanges = nextLuggage
+    ? LUGGAGE_KEYS
+      .filter((key) => currentLuggage[key] !== nextLuggage[key])
+      .map((key) => `${key}: ${currentLuggage[key]} → ${nextLuggage[key]}`)
+    : [];
+  if (nextLuggage && (luggageChanges.length > 0 || isLegacyLuggage(tripData.luggage))) {
+    if (tripData.vehicleCapacity && !luggageFits(getTripLuggageLoad({ ...tripData, luggage: nextLuggage }), tripData.vehicleCapacity)) {
+      throw new HttpsError("failed-precondition", "The new luggage would not fit in the vehicle with your guests' bags.");
+    }
+    updates.luggage = nextLuggage;
+  }
+
+  if (note !== undefined) {
+    updates.note = typeof note === "string" && note.trim() ? note.trim() : null;
+  }
+  let hostContact: ContactRecord | null = null;
+  if (hostContactMethod !== undefined) {
+    const { method, contactValue, hint } = resolveContact(hostContactMethod, hostContactValue, request.auth?.token?.email);
+    hostContact = { method, value: contactValue };
+    updates.hostContactMethod = method;
+    updates.hostContactHint = hint;
+    updates.hostContactValue = admin.firestore.FieldValue.delete();
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return { ok: true, changed: false };
   }
 
-  const reqRef = admin.firestore().doc(`schools/${schoolId}/pairRequests/${requestId}`);
-  const tripRefFromReq = (tripId: string) => admin.firestore().doc(`schools/${schoolId}/trips/${tripId}`);
-
   await admin.firestore().runTransaction(async (txn) => {
+    const fresh = await txn.get(tripRef);
+    const freshData = fresh.data() as TripData | undefined;
+    if (!freshData || (freshData.status !== "open" && freshData.status !== "paired")) {
+      throw new HttpsError("failed-precondition", "Only open or paired trips can be edited.");
+    }
+    txn.update(tripRef, { ...updates, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+    if (hostContact) {
+      txn.set(privateContactRef(tripRef, uid), hostContact);
+    }
+  });
+
+  if (windowChanged || luggageChanges.length > 0) {
+    try {
+      await notifyTripUpdated(schoolId, tripId, tripData, nextStart, nextEnd, luggageChanges);
+    } catch (emailError) {
+      console.warn("Trip update email dispatch failed", emailError);
+    }
+  }
+
+  return { ok: true, changed: true };
+});
+
+// Emails pending requesters and confirmed guests a summary of window/luggage edits.
+async function notifyTripUpdated(
+  schoolId: string,
+  tripId: string,
+  before: TripData,
+  nextStart: Date,
+  nextEnd: Date,
+  luggageChanges: string[],
+): Promise<void> {
+  const pending = await admin
+    .firestore()
+    .collection("schools")
+    .doc(schoolId)
+    .collection("pairRequests")
+    .where("tripId", "==", tripId)
+    .where("status", "==", "pending")
+    .get();
+
+  const recipientIds = new Set(pending.docs.map((doc) => doc.get("requesterId") as string));
+  getTripGuests(before).forEach((guest) => recipientIds.add(guest.id));
+  if (recipientIds.size === 0) return;
+
+  const schoolTimezone = await getSchoolTimezone(schoolId);
+  const previous = getCommonEmailData(before, tripId, schoolTimezone);
+  const next = getCommonEmailData({
+    ...before,
+    departureStart: admin.firestore.Timestamp.fromDate(nextStart),
+    departureEnd: admin.firestore.Timestamp.fromDate(nextEnd),
+  }, tripId, schoolTimezone);
+
+  const changes: string[] = [];
+  if (previous.start !== next.start || previous.end !== next.end) {
+    changes.push(`Window: ${previous.start} – ${previous.end} → ${next.start} – ${next.end}`);
+  }
+  luggageChanges.forEach((change) => changes.push(`Host luggage ${change}`));
+
+  const message = tripUpdatedEmail({ hostNickname: before.hostNickname ?? "Your host", trip: next, changes });
+
+  for (const recipientId of recipientIds) {
+    try {
+      await dispatchNotification({ userId: recipientId, event: "tripUpdated", message });
+    } catch (err) {
+      console.warn("Could not notify rider of trip update", err);
+    }
+  }
+}
+
+
+
+export const acceptPairRequest = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "accept pairing requests");
+
+  const { requestId, recaptchaToken } = request.data as AcceptPairRequestPayload;
+  await assertRecaptcha(recaptchaToken, "acceptPairRequest");
+  if (!requestId || typeof requestId !== "string") {
+    throw new HttpsError("invalid-argument", "requestId is required.");
+  }
+
+  const reqRef = admin.firestore().doc(`schools/${schoolId}/pairRequests/${requestId}`);
+  const tripRefFromReq = (tripId: string) => admin.firestore().doc(`schools/${schoolId}/trips/${tripId}`);
+
+  const { tripId, full } = await admin.firestore().runTransaction(async (txn) => {
     const reqSnap = await txn.get(reqRef);
     if (!reqSnap.exists) {
       throw new HttpsError("not-found", "Pair request not found.");
     }
     const reqData = reqSnap.data() as PairRequestData;
-    if (reqData.status !== "pending") {
+    if (!canTransitionPairRequest(reqData.status, "accepted")) {
       throw new HttpsError("failed-precondition", "Only pending requests can be accepted.");
     }
 
@@ -473,24 +1420,56 @@ export const acceptPairRequest = onCall({ enforceAppCheck: true }, async (reques
       throw new HttpsError("failed-precondition", "Trip is not open for pairing.");
     }
 
+    const guests = getTripGuests(tripData);
+    if (guests.length >= getTripSeats(tripData)) {
+      throw new HttpsError("failed-precondition", "All seats on this trip are taken.");
+    }
+    if (guests.some((guest) => guest.id === reqData.requesterId)) {
+      throw new HttpsError("already-exists", "This rider is already on the trip.");
+    }
+    if (await isBlockedBetween(schoolId, uid, reqData.requesterId, txn)) {
+      throw new HttpsError("permission-denied", "You can't pair with this rider.");
+    }
+    const requesterContactSnap = await txn.get(privateContactRef(reqRef, "contact"));
+    const requesterContact = (requesterContactSnap.data() as ContactRecord | undefined) ??
+      { method: reqData.requesterContactMethod ?? "email", value: reqData.requesterContactValue ?? null };
+    const requesterLuggage = normalizeLuggage(reqData.luggage);
+    if (tripData.vehicleCapacity && !luggageFits(getTripLuggageLoad(tripData, [requesterLuggage]), tripData.vehicleCapacity)) {
+      throw new HttpsError(
+        "failed-precondition",
+        `This rider's luggage (${formatLuggage(requesterLuggage)}) would not fit in the vehicle.`,
+      );
+    }
+
+    const nextGuests: TripGuest[] = [...guests, {
+      id: reqData.requesterId,
+      nickname: reqData.requesterName,
+      luggage: requesterLuggage,
+      note: reqData.note ?? null,
+      guestContactMethod: requesterContact.method,
+      guestContactHint: maskContact(requesterContact.method, requesterContact.value),
+      reputation: reqData.requesterReputation ?? toReputationSummary(undefined),
+    }];
+    const isFull = nextGuests.length >= getTripSeats(tripData);
+
     txn.update(reqRef, { status: "accepted", updatedAt: admin.firestore.FieldValue.serverTimestamp() });
     txn.update(tripRefFromReq(tripId), {
-      guest: {
-        id: reqData.requesterId,
-        nickname: reqData.requesterName,
-        luggage: reqData.luggage,
-        note: reqData.note ?? null,
-        guestContactMethod: reqData.requesterContactMethod ?? "email",
-        guestContactValue: reqData.requesterContactValue ?? null,
-      },
-      status: "paired",
+      guests: nextGuests,
+      guest: admin.firestore.FieldValue.delete(),
+      status: isFull ? "paired" : "open",
       updatedAt: admin.firestore.FieldValue.serverTimestamp(),
     });
+    // Copied to the trip so the host can reveal it through getTripContact.
+    txn.set(privateContactRef(tripRefFromReq(tripId), reqData.requesterId), requesterContact);
+
+    return { tripId, full: isFull };
   });
 
-  // Decline other pending requests for this trip outside the transaction.
-  const reqSnap = await reqRef.get();
-  const tripId = (reqSnap.data() as any).tripId as string;
+  if (!full) {
+    return { ok: true, full };
+  }
+
+  // Trip is full: decline the remaining pending requests outside the transaction.
   const pending = await admin
     .firestore()
     .collection("schools")
@@ -508,278 +1487,2291 @@ export const acceptPairRequest = onCall({ enforceAppCheck: true }, async (reques
     await batch.commit().catch((err) => console.warn("Decline others failed", err));
   }
 
-  return { ok: true };
+  return { ok: true, full };
 });
 
-const getHoursToTrip = (departureStart: Date): number => {
-  const now = new Date();
-  const diffMs = departureStart.getTime() - now.getTime();
-  return Math.round(diffMs / (1000 * 60 * 60));
-};
+// One-off rewrite of trips stored with kebab-case luggage keys or the single `guest` field.
+// Safe to re-run: already-migrated trips are skipped.
+export const migrateLuggageModel = onCall({ enforceAppCheck: true, timeoutSeconds: 540 }, async (request) => {
+  const actor = await requireAdmin(request, "admin");
 
-const getCommonEmailData = (
-  tripData: any,
-  tripId: string
-) => {
-  const origin = tripData.origin.name;
-  const destination = tripData.destination.name;
-  const tripTimezone = tripData.timezone || TIMEZONE;
-  const dateOptions: Intl.DateTimeFormatOptions = {
-    timeZone: tripTimezone,
-    year: "numeric",
-    month: "short",
-    day: "numeric",
-    hour: "numeric",
-    minute: "2-digit",
-    timeZoneName: "shortOffset",
-  };
+  const db = admin.firestore();
+  const pageSize = 400;
+  let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+  let scanned = 0;
+  let migrated = 0;
+
+  for (;;) {
+    let query = db.collectionGroup("trips").orderBy(admin.firestore.FieldPath.documentId()).limit(pageSize);
+    if (lastDoc) {
+      query = query.startAfter(lastDoc);
+    }
+    const page = await query.get();
+    if (page.empty) break;
 
-  const start = tripData.departureStart?.toDate().toLocaleString("en-US", dateOptions) ?? "";
-  const end = tripData.departureEnd?.toDate().toLocaleString("en-US", { ...dateOptions, timeZoneName: undefined }) ?? ""; // Concise end time? Or full? User asked "always clearly... display timezone".
-  // Maybe just start time has timezone, end time implicitly same.
-  // Or show both? "Jan 1, 10:00 AM GMT-5 – 11:00 AM"
-  // Let's stick to simple toLocaleString which includes date.
+    const batch = db.batch();
+    let pageWrites = 0;
+    page.docs.forEach((doc) => {
+      const trip = doc.data() as TripData;
+      const guests = getTripGuests(trip);
+      const needsMigration = isLegacyLuggage(trip.luggage) ||
+        trip.guest !== undefined ||
+        guests.some((guest) => isLegacyLuggage(guest.luggage));
+      if (!needsMigration) return;
+
+      batch.update(doc.ref, {
+        luggage: normalizeLuggage(trip.luggage),
+        guests: guests.map((guest) => ({ ...guest, luggage: normalizeLuggage(guest.luggage) })),
+        guest: admin.firestore.FieldValue.delete(),
+      });
+      pageWrites += 1;
+    });
+    if (pageWrites > 0) {
+      await batch.commit();
+    }
 
-  const tripUrl = `${frontendBaseUrl}/trips/${tripId}`;
+    scanned += page.size;
+    migrated += pageWrites;
+    lastDoc = page.docs[page.docs.length - 1];
+  }
 
-  const departureDate = tripData.departureStart?.toDate();
-  const hoursToTrip = departureDate ? getHoursToTrip(departureDate) : 0;
-  const isWithin30Hours = hoursToTrip <= 30;
+  console.log(`Luggage migration scanned ${scanned} trips, migrated ${migrated}`);
+  await writeAuditLog(actor, "migrateLuggageModel", {}, { scanned, migrated });
+  return { scanned, migrated };
+});
 
-  const contactInfoText = isWithin30Hours
-    ? `<strong>Because your trip is within 30 hours</strong>, it might be helpful to exchange phone numbers or emails to facilitate prompt finalisation of details.`
-    : `Feel free to exchange emails or phone numbers if you'd like to facilitate easier communication.`;
+// One-off move of plain contact values on trips and pair requests into their private subcollections,
+// leaving a masked hint behind. Safe to re-run: documents without plain values are skipped.
+export const migrateContactPrivacy = onCall({ enforceAppCheck: true, timeoutSeconds: 540 }, async (request) => {
+  const actor = await requireAdmin(request, "admin");
 
-  return { origin, destination, start, end, tripUrl, hoursToTrip, contactInfoText };
-};
+  const db = admin.firestore();
+  const pageSize = 50;
+  const summary = { scanned: 0, migrated: 0 };
+
+  for (const collectionId of ["trips", "pairRequests"]) {
+    let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+    for (;;) {
+      let query = db.collectionGroup(collectionId).orderBy(admin.firestore.FieldPath.documentId()).limit(pageSize);
+      if (lastDoc) {
+        query = query.startAfter(lastDoc);
+      }
+      const page = await query.get();
+      if (page.empty) break;
+
+      // A trip needs at most 2 + MAX_TRIP_SEATS writes, so a page stays under the 500-write batch limit.
+      const batch = db.batch();
+      let pageWrites = 0;
+      page.docs.forEach((doc) => {
+        if (collectionId === "pairRequests") {
+          const data = doc.data() as PairRequestData;
+          if (data.requesterContactValue === undefined) return;
+          const method = data.requesterContactMethod ?? "chat";
+          batch.set(privateContactRef(doc.ref, "contact"), { method, value: data.requesterContactValue ?? null });
+          batch.update(doc.ref, {
+            requesterContactHint: maskContact(method, data.requesterContactValue),
+            requesterContactValue: admin.firestore.FieldValue.delete(),
+          });
+          pageWrites += 1;
+          return;
+        }
 
-const getContactDetailsHtml = (method: unknown, value: unknown, name: string): string => {
-  if (method === "email" && typeof value === "string" && value.trim()) {
-    return `<p>You can also contact <strong>${name}</strong> via email: <a href="mailto:${value}">${value}</a></p>`;
-  }
-  if (method === "phone" && typeof value === "string" && value.trim()) {
-    return `<p>You can also contact <strong>${name}</strong> via phone: <a href="tel:${value}">${value}</a></p>`;
+        const trip = doc.data() as TripData;
+        const guests = getTripGuests(trip);
+        if (trip.hostContactValue === undefined && !guests.some((guest) => guest.guestContactValue !== undefined)) return;
+        if (trip.hostContactValue !== undefined) {
+          const method = trip.hostContactMethod ?? "chat";
+          batch.set(privateContactRef(doc.ref, trip.hostId), { method, value: trip.hostContactValue ?? null });
+        }
+        guests
+          .filter((guest) => guest.guestContactValue !== undefined)
+          .forEach((guest) => batch.set(privateContactRef(doc.ref, guest.id), {
+            method: guest.guestContactMethod ?? "chat",
+            value: guest.guestContactValue ?? null,
+          }));
+        batch.update(doc.ref, {
+          hostContactHint: maskContact(trip.hostContactMethod, trip.hostContactValue),
+          hostContactValue: admin.firestore.FieldValue.delete(),
+          guests: guests.map(({ guestContactValue, ...guest }) => ({
+            ...guest,
+            guestContactHint: maskContact(guest.guestContactMethod, guestContactValue),
+          })),
+          guest: admin.firestore.FieldValue.delete(),
+        });
+        pageWrites += 1;
+      });
+      if (pageWrites > 0) {
+        await batch.commit();
+      }
+
+      summary.scanned += page.size;
+      summary.migrated += pageWrites;
+      lastDoc = page.docs[page.docs.length - 1];
+    }
   }
-  return "";
-};
 
-const sendGuestAcceptanceEmail = async (
-  email: string,
-  hostNickname: string,
-  commonData: any,
-  contactMethod?: unknown,
-  contactValue?: unknown
-) => {
-  const { origin, destination, start, end, tripUrl, hoursToTrip, contactInfoText } = commonData;
-  const specificContactHtml = getContactDetailsHtml(contactMethod, contactValue, hostNickname);
+  console.log(`Contact migration scanned ${summary.scanned} documents, migrated ${summary.migrated}`);
+  await writeAuditLog(actor, "migrateContactPrivacy", {}, summary);
+  return summary;
+});
 
-  await admin.firestore().collection("mail").add({
-    to: email,
-    message: {
-      subject: `Peer-Ride: Your pairing request was accepted by ${hostNickname}`,
-      html: `
-        <p>Great news! Your pairing request for <strong>${origin} -> ${destination}</strong> was accepted by <strong>${hostNickname}</strong>. Your pairing is now confirmed.</p>
-        <ul>
-          <li>Window: ${start} – ${end}</li>
-          <li>Time to trip: ${hoursToTrip} hours</li>
-        </ul>
-        <p>Please <a href="${tripUrl}">open trip details</a> to coordinate via our in-app live chat, which can also be found by selecting the <strong>"Me"</strong> page, then the <strong>"View"</strong> button on the correct card.</p>
-        ${specificContactHtml}
-        <p>${contactInfoText}</p>
-        <p>Please consider using Uber and Lyft's two stop functionality when booking a ride, which may save you some walking.</p>
-        <br>
-        <p>Best regards,</p>
-        <p>Peer-ride support team</p>
-      `,
-    },
-  });
-};
+async function updatePairRequestStatus(
+  schoolId: string,
+  requestId: string,
+  uid: string,
+  nextStatus: "declined" | "withdrawn",
+): Promise<void> {
+  const reqRef = admin.firestore().doc(`schools/${schoolId}/pairRequests/${requestId}`);
 
-const sendHostAcceptanceEmail = async (
-  email: string,
-  guestNickname: string,
-  commonData: any,
-  contactMethod?: unknown,
-  contactValue?: unknown
-) => {
-  const { origin, destination, start, end, tripUrl, hoursToTrip, contactInfoText } = commonData;
-  const specificContactHtml = getContactDetailsHtml(contactMethod, contactValue, guestNickname);
+  await admin.firestore().runTransaction(async (txn) => {
+    const reqSnap = await txn.get(reqRef);
+    if (!reqSnap.exists) {
+      throw new HttpsError("not-found", "Pair request not found.");
+    }
+    const reqData = reqSnap.data() as PairRequestData;
 
-  await admin.firestore().collection("mail").add({
-    to: email,
-    message: {
-      subject: `Peer-Ride: You have confirmed your pairing with ${guestNickname}`,
-      html: `
-        <p>You have confirmed your pairing with <strong>${guestNickname}</strong> for <strong>${origin} -> ${destination}</strong>!</p>
-        <ul>
-          <li>Window: ${start} – ${end}</li>
-          <li>Time to trip: ${hoursToTrip} hours</li>
-        </ul>
-        <p>Please <a href="${tripUrl}">open trip details</a> to coordinate via our in-app live chat, which can also be found by selecting the <strong>"Me"</strong> page, then the <strong>"View"</strong> button on the correct card.</p>
-        ${specificContactHtml}
-        <p>${contactInfoText}</p>
-        <p>Please consider using Uber and Lyft's two stop functionality when booking a ride, which may save you some walking.</p>
-        <br>
-        <p>Best regards,</p>
-        <p>Peer-ride support team</p>
-      `,
-    },
+    if (nextStatus === "declined" && reqData.hostId !== uid) {
+      throw new HttpsError("permission-denied", "Only the host can decline requests for this trip.");
+    }
+    if (nextStatus === "withdrawn" && reqData.requesterId !== uid) {
+      throw new HttpsError("permission-denied", "Only the requester can withdraw this request.");
+    }
+    if (!canTransitionPairRequest(reqData.status, nextStatus)) {
+      throw new HttpsError("failed-precondition", `Cannot change a ${reqData.status} request to ${nextStatus}.`);
+    }
+
+    txn.update(reqRef, { status: nextStatus, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
   });
-};
+}
 
-export const notifyPairAcceptance = onDocumentUpdated("schools/{schoolId}/pairRequests/{requestId}", async (event) => {
-  const beforeStatus = event.data?.before.data()?.status as string | undefined;
-  const afterData = event.data?.after.data() as Record<string, unknown> | undefined;
-  const afterStatus = afterData?.status as string | undefined;
-  const schoolId = event.params?.schoolId;
+export const declinePairRequest = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "decline pairing requests");
 
-  if (!afterData || beforeStatus === afterStatus || !schoolId) {
-    return;
+  const { requestId } = request.data as PairRequestActionPayload;
+  if (!requestId || typeof requestId !== "string") {
+    throw new HttpsError("invalid-argument", "requestId is required.");
   }
 
-  const requesterId = afterData.requesterId as string | undefined;
-  const tripId = afterData.tripId as string | undefined;
-  const guestNickname = (afterData.requesterName as string | undefined) ?? "Guest";
-  const hostNickname = (afterData.hostNickname as string | undefined) ?? "Host";
-
-  if (!requesterId || !tripId) return;
+  await updatePairRequestStatus(schoolId, requestId, uid, "declined");
+  return { ok: true };
+});
 
-  const tripSnapshot = await admin.firestore().doc(`schools/${schoolId}/trips/${tripId}`).get();
-  const tripData = tripSnapshot.data() as TripData | undefined;
+export const withdrawPairRequest = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "withdraw pairing requests");
 
-  if (!tripData) return;
+  const { requestId } = request.data as PairRequestActionPayload;
+  if (!requestId || typeof requestId !== "string") {
+    throw new HttpsError("invalid-argument", "requestId is required.");
+  }
 
-  const commonData = getCommonEmailData(tripData, tripId);
+  await updatePairRequestStatus(schoolId, requestId, uid, "withdrawn");
+  return { ok: true };
+});
 
-  if (afterStatus === "accepted") {
-    // Notify Guest
-    try {
-      const user = await admin.auth().getUser(requesterId);
-      if (user.email) {
-        // Guest receives Host's contact info
-        await sendGuestAcceptanceEmail(
-          user.email,
-          hostNickname,
-          commonData,
-          tripData.hostContactMethod,
-          tripData.hostContactValue
-        );
-      }
-    } catch (err) {
-      console.warn("Could not load requester user for email", err);
-    }
+export const cancelTrip = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "cancel a trip");
 
-    // Notify Host
-    try {
-      if (tripData.hostId) {
-        const hostUser = await admin.auth().getUser(tripData.hostId);
-        if (hostUser.email) {
-          // Host receives Guest's contact info
-          await sendHostAcceptanceEmail(
-            hostUser.email,
-            guestNickname,
-            commonData,
-            afterData.requesterContactMethod,
-            afterData.requesterContactValue
-          );
-        }
-      }
-    } catch (err) {
-      console.warn("Could not load host user for email", err);
-    }
+  const { tripId, reason } = request.data as TripActionPayload;
+  if (!tripId || typeof tripId !== "string") {
+    throw new HttpsError("invalid-argument", "tripId is required.");
   }
 
-  if (afterStatus === "declined") {
-    try {
-      const user = await admin.auth().getUser(requesterId);
-      if (user.email) {
-        await admin.firestore().collection("mail").add({
-          to: user.email,
-          message: {
-            subject: `Your pairing request was declined by ${tripData.hostNickname ?? hostNickname}`,
-            html: `
-              <p>Your request for <strong>${commonData.origin} → ${commonData.destination}</strong> was declined.</p>
-              <p>You can browse more trips and send another request.</p>
-              <p><a href="${frontendBaseUrl}">Open Peer Ride</a></p>
-            `,
-          },
-        });
-      }
-    } catch (err) {
-      console.warn("Could not notify guest of decline", err);
+  await cancelTripAs(schoolId, tripId, reason, { hostId: uid });
+  return { ok: true };
+});
+
+// Cancels a trip for its host, or for an admin when `hostId` is omitted. Returns the trip as it was.
+async function cancelTripAs(
+  schoolId: string,
+  tripId: string,
+  reason: unknown,
+  actor: { hostId?: string },
+): Promise<TripData> {
+  const db = admin.firestore();
+  const tripRef = db.doc(`schools/${schoolId}/trips/${tripId}`);
+  const activeRequestsQuery = db
+    .collection("schools")
+    .doc(schoolId)
+    .collection("pairRequests")
+    .where("tripId", "==", tripId)
+    .where("status", "in", ["pending", "accepted"]);
+
+  return db.runTransaction(async (txn) => {
+    const tripSnap = await txn.get(tripRef);
+    if (!tripSnap.exists) {
+      throw new HttpsError("not-found", "Trip not found.");
+    }
+    const tripData = tripSnap.data() as TripData;
+    if (actor.hostId && tripData.hostId !== actor.hostId) {
+      throw new HttpsError("permission-denied", "Only the host can cancel this trip.");
+    }
+    if (tripData.status !== "open" && tripData.status !== "paired") {
+      throw new HttpsError("failed-precondition", "Only open or paired trips can be cancelled.");
     }
+
+    const activeRequests = await txn.get(activeRequestsQuery);
+
+    txn.update(tripRef, {
+      status: "cancelled",
+      guests: [],
+      guest: admin.firestore.FieldValue.delete(),
+      cancelReason: typeof reason === "string" && reason.trim() ? reason.trim() : null,
+      cancelledBy: actor.hostId ? "host" : "admin",
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    // Status changes fan out to notifyPairAcceptance, which emails every affected requester.
+    activeRequests.docs.forEach((doc) => {
+      const status = doc.get("status") as PairRequestStatus;
+      txn.update(doc.ref, status === "pending"
+        ? { status: "declined", declineReason: "trip-cancelled", updatedAt: admin.firestore.FieldValue.serverTimestamp() }
+        : { status: "cancelled", updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+    });
+
+    return tripData;
+  });
+}
+
+// Ends a confirmed pairing. The host drops a guest (guestId), or a guest leaves; either way the
+// freed seat reopens for requests while the departure is still ahead.
+export const unpairTrip = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "leave or unpair a trip");
+
+  const { tripId, guestId } = request.data as TripActionPayload;
+  if (!tripId || typeof tripId !== "string") {
+    throw new HttpsError("invalid-argument", "tripId is required.");
+  }
+  if (guestId !== undefined && typeof guestId !== "string") {
+    throw new HttpsError("invalid-argument", "guestId must be a string.");
   }
+
+  const { reopened } = await removeTripGuest(schoolId, tripId, uid, guestId);
+  return { ok: true, reopened };
 });
 
-// Scheduled cleanup: daily. Removes stale open trips (2+ days past departureEnd) and old mails.
-export const cleanupStaleData = onSchedule({
-  schedule: "0 8 * * *",
-  timeZone: TIMEZONE,
-  retryCount: 3,
-}, async () => {
+// Drops one guest from a trip: the host removes `guestId`, or the actor leaves as a guest.
+async function removeTripGuest(
+  schoolId: string,
+  tripId: string,
+  uid: string,
+  guestId: string | undefined,
+): Promise<{ reopened: boolean }> {
   const db = admin.firestore();
-  const now = new Date();
-  const cutoffOpenTrip = new Date(now.getTime() - 1 * 24 * 60 * 60 * 1000);
-  const cutoffAllTrip = new Date(cutoffOpenTrip.getTime() - 2 * 24 * 60 * 60 * 1000);
-  const cutoffMail = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+  const tripRef = db.doc(`schools/${schoolId}/trips/${tripId}`);
+  const acceptedQuery = db
+    .collection("schools")
+    .doc(schoolId)
+    .collection("pairRequests")
+    .where("tripId", "==", tripId)
+    .where("status", "==", "accepted");
+
+  return db.runTransaction(async (txn) => {
+    const tripSnap = await txn.get(tripRef);
+    if (!tripSnap.exists) {
+      throw new HttpsError("not-found", "Trip not found.");
+    }
+    const tripData = tripSnap.data() as TripData;
+    const guests = getTripGuests(tripData);
+    if ((tripData.status !== "open" && tripData.status !== "paired") || guests.length === 0) {
+      throw new HttpsError("failed-precondition", "This trip has no confirmed guest.");
+    }
+
+    const isHost = tripData.hostId === uid;
+    const departingGuestId = isHost ? guestId ?? (guests.length === 1 ? guests[0].id : undefined) : uid;
+    if (isHost && !departingGuestId) {
+      throw new HttpsError("invalid-argument", "guestId is required when the trip has several guests.");
+    }
+    if (!guests.some((guest) => guest.id === departingGuestId)) {
+      throw new HttpsError(
+        isHost ? "not-found" : "permission-denied",
+        isHost ? "That rider is not a guest on this trip." : "Only the host or a paired guest can end this pairing.",
+      );
+    }
+
+    const accepted = await txn.get(acceptedQuery);
+    const remainingGuests = guests.filter((guest) => guest.id !== departingGuestId);
+    const departureStart = tripData.departureStart?.toDate();
+    const reopened = !!departureStart && departureStart.getTime() > Date.now();
+    let nextStatus: TripStatus = "open";
+    if (!reopened) {
+      nextStatus = remainingGuests.length > 0 ? tripData.status : "closed";
+    }
+
+    txn.update(tripRef, {
+      status: nextStatus,
+      guests: remainingGuests,
+      guest: admin.firestore.FieldValue.delete(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    txn.delete(privateContactRef(tripRef, departingGuestId as string));
+    accepted.docs
+      .filter((doc) => doc.get("requesterId") === departingGuestId)
+      .forEach((doc) => txn.update(doc.ref, {
+        status: isHost ? "removed" : "left",
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }));
+
+    return { reopened };
+  });
+}
+
+// Reveals contact details between the host and accepted guests: the host sees every guest, a guest sees the host.
+export const getTripContact = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "view contact details");
+
+  const { tripId } = request.data as TripActionPayload;
+  if (!tripId || typeof tripId !== "string") {
+    throw new HttpsError("invalid-argument", "tripId is required.");
+  }
+
+  const tripRef = admin.firestore().doc(`schools/${schoolId}/trips/${tripId}`);
+  const tripSnap = await tripRef.get();
+  if (!tripSnap.exists) {
+    throw new HttpsError("not-found", "Trip not found.");
+  }
+  const tripData = tripSnap.data() as TripData;
+  const guests = getTripGuests(tripData);
+  if (tripData.status !== "open" && tripData.status !== "paired") {
+    throw new HttpsError("failed-precondition", "Contact details are only available for active trips.");
+  }
+
+  if (tripData.hostId === uid) {
+    const contacts = await Promise.all(guests.map(async (guest) => {
+      const contact = await readContact(tripRef, guest.id, { method: guest.guestContactMethod, value: guest.guestContactValue });
+      return { userId: guest.id, name: guest.nickname, ...contact };
+    }));
+    return { contacts };
+  }
+
+  if (!guests.some((guest) => guest.id === uid)) {
+    throw new HttpsError("permission-denied", "Contact details are shared only after your request is accepted.");
+  }
+  const hostContact = await readContact(tripRef, tripData.hostId, {
+    method: tripData.hostContactMethod,
+    value: tripData.hostContactValue,
+  });
+  return { contacts: [{ userId: tripData.hostId, name: tripData.hostNickname ?? "Host", ...hostContact }] };
+});
+
+const DEFAULT_MATCH_PAGE_SIZE = 20;
+const MAX_MATCH_PAGE_SIZE = 50;
+const MATCH_SCAN_PAGE_SIZE = 250;
+// Ranking needs every candidate in memory; past this many the results are marked `truncated`.
+const MAX_MATCH_CANDIDATES = 2000;
+
+// Accepts a location object or a bare location id.
+const getLocationId = (value: unknown): string | null => {
+  if (typeof value === "string" && value.trim()) return value.trim();
+  if (isLocation(value)) return String(value.id);
+  return null;
+};
+
+// Ranking order: most overlap first, then earliest departure, then id for a stable tie-break.
+const compareTripMatches = (a: TripMatchKey, b: TripMatchKey): number =>
+  b.overlapMs - a.overlapMs || a.startMs - b.startMs || a.id.localeCompare(b.id);
+
+const encodeMatchCursor = (match: TripMatch): string =>
+  Buffer.from(JSON.stringify({ o: match.overlapMs, s: match.startMs, id: match.id })).toString("base64url");
+
+function decodeMatchCursor(cursor: string): TripMatchKey {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof parsed.o === "number" && typeof parsed.s === "number" && typeof parsed.id === "string") {
+      return { overlapMs: parsed.o, startMs: parsed.s, id: parsed.id };
+    }
+  } catch (err) {
+    // Fall through to the error below.
+  }
+  throw new HttpsError("invalid-argument", "cursor is invalid.");
+}
+
+export const findMatchingTrips = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "search for trips");
+
+  const { origin, destination, departureStart, departureEnd, luggage, pageSize, cursor } =
+    request.data as FindMatchingTripsPayload;
+
+  const originId = getLocationId(origin);
+  const destinationId = getLocationId(destination);
+  if (!originId || !destinationId) {
+    throw new HttpsError("invalid-argument", "origin and destination are required.");
+  }
+  if (!isIsoString(departureStart) || !isIsoString(departureEnd)) {
+    throw new HttpsError("invalid-argument", "departureStart and departureEnd are required ISO strings.");
+  }
+  const desiredStart = new Date(departureStart).getTime();
+  const desiredEnd = new Date(departureEnd).getTime();
+  if (Number.isNaN(desiredStart) || Number.isNaN(desiredEnd) || desiredEnd < desiredStart) {
+    throw new HttpsError("invalid-argument", "departureStart and departureEnd must form a valid window.");
+  }
+  const riderLuggage = luggage === undefined ? null : parseLuggage(luggage);
+  if (luggage !== undefined && !riderLuggage) {
+    throw new HttpsError("invalid-argument", "Luggage counts must be non-negative numbers.");
+  }
+  if (pageSize !== undefined && (!Number.isInteger(pageSize) || (pageSize as number) < 1)) {
+    throw new HttpsError("invalid-argument", "pageSize must be a positive whole number.");
+  }
+  if (cursor !== undefined && typeof cursor !== "string") {
+    throw new HttpsError("invalid-argument", "cursor is invalid.");
+  }
+  const limit = Math.min((pageSize as number | undefined) ?? DEFAULT_MATCH_PAGE_SIZE, MAX_MATCH_PAGE_SIZE);
+  const after = cursor ? decodeMatchCursor(cursor) : null;
+
+  const db = admin.firestore();
+  const myRequests = await db
+    .collection("schools")
+    .doc(schoolId)
+    .collection("pairRequests")
+    .where("requesterId", "==", uid)
+    .where("status", "in", ["pending", "accepted"])
+    .get();
 
-  // Find open/expired trips using Collection Group Query
-  const tripsSnapOpen = await db
-    .collectionGroup("trips")
+  // Only trips whose window overlaps the desired one, read a page at a time in departureEnd order so a
+  // truncated scan always covers the same, earliest-ending trips.
+  const candidateQuery = db
+    .collection("schools")
+    .doc(schoolId)
+    .collection("trips")
     .where("status", "==", "open")
-    .where("departureEnd", "<", cutoffOpenTrip)
+    .where("origin.id", "==", originId)
+    .where("destination.id", "==", destinationId)
+    .where("departureEnd", ">=", new Date(Math.max(desiredStart, Date.now())))
+    .where("departureStart", "<=", new Date(desiredEnd))
+    .orderBy("departureEnd")
+    .orderBy("departureStart");
+  const candidates: admin.firestore.QueryDocumentSnapshot[] = [];
+  let truncated = false;
+  for (;;) {
+    let query = candidateQuery.limit(Math.min(MATCH_SCAN_PAGE_SIZE, MAX_MATCH_CANDIDATES - candidates.length + 1));
+    if (candidates.length > 0) {
+      query = query.startAfter(candidates[candidates.length - 1]);
+    }
+    const page = await query.get();
+    candidates.push(...page.docs);
+    if (candidates.length > MAX_MATCH_CANDIDATES) {
+      candidates.length = MAX_MATCH_CANDIDATES;
+      truncated = true;
+      break;
+    }
+    if (page.size < MATCH_SCAN_PAGE_SIZE) break;
+  }
+
+  const requestedTripIds = new Set(myRequests.docs.map((doc) => doc.get("tripId") as string));
+
+  const matches: TripMatch[] = [];
+  candidates.forEach((doc) => {
+    const trip = doc.data() as TripData;
+    if (trip.hostId === uid || requestedTripIds.has(doc.id)) return;
+    if (getTripGuests(trip).length >= getTripSeats(trip)) return;
+    if (riderLuggage && trip.vehicleCapacity && !luggageFits(getTripLuggageLoad(trip, [riderLuggage]), trip.vehicleCapacity)) {
+      return;
+    }
+
+    const startMs = trip.departureStart.toMillis();
+    const overlapMs = Math.min(trip.departureEnd.toMillis(), desiredEnd) - Math.max(startMs, desiredStart);
+    if (overlapMs < 0) return;
+    matches.push({ id: doc.id, overlapMs, startMs, trip });
+  });
+
+  matches.sort(compareTripMatches);
+  const remaining = after ? matches.filter((match) => compareTripMatches(match, after) > 0) : matches;
+  const page = remaining.slice(0, limit);
+
+  return {
+    trips: page.map(({ id, overlapMs, trip }) => ({
+      id,
+      hostNickname: trip.hostNickname,
+      origin: trip.origin,
+      destination: trip.destination,
+      departureStart: trip.departureStart.toDate().toISOString(),
+      departureEnd: trip.departureEnd.toDate().toISOString(),
+      seatsLeft: getTripSeats(trip) - getTripGuests(trip).length,
+      luggage: normalizeLuggage(trip.luggage),
+      note: trip.note ?? null,
+      overlapMinutes: Math.round(overlapMs / 60_000),
+    })),
+    nextCursor: remaining.length > limit ? encodeMatchCursor(page[page.length - 1]) : null,
+    // More trips overlap the window than were ranked; the client should suggest narrowing it.
+    truncated,
+  };
+});
+
+const MAX_ROUTE_SUBSCRIPTIONS = 10;
+
+const routeSubscriptionsRef = (schoolId: string) =>
+  admin.firestore().collection("schools").doc(schoolId).collection("routeSubscriptions");
+
+export const createRouteSubscription = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "create a route alert");
+
+  const { origin, destination, windowStart, windowEnd } = request.data as CreateRouteSubscriptionPayload;
+  const settings = await getSchoolSettings(schoolId);
+  const alertOrigin = resolveTripLocation(settings, origin, "origin");
+  const alertDestination = resolveTripLocation(settings, destination, "destination");
+  if (!isIsoString(windowStart) || !isIsoString(windowEnd)) {
+    throw new HttpsError("invalid-argument", "windowStart and windowEnd are required ISO strings.");
+  }
+  const start = new Date(windowStart);
+  const end = new Date(windowEnd);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end < start) {
+    throw new HttpsError("invalid-argument", "windowStart and windowEnd must form a valid window.");
+  }
+  if (end.getTime() <= Date.now()) {
+    throw new HttpsError("invalid-argument", "The alert window has already ended.");
+  }
+
+  const existing = await routeSubscriptionsRef(schoolId)
+    .where("userId", "==", uid)
+    .where("expiresAt", ">", new Date())
+    .get();
+  if (existing.size >= MAX_ROUTE_SUBSCRIPTIONS) {
+    throw new HttpsError(
+      "resource-exhausted",
+      `You can have up to ${MAX_ROUTE_SUBSCRIPTIONS} route alerts. Delete one before adding another.`,
+    );
+  }
+
+  const docRef = await routeSubscriptionsRef(schoolId).add({
+    userId: uid,
+    origin: { id: String(alertOrigin.id), name: alertOrigin.name },
+    destination: { id: String(alertDestination.id), name: alertDestination.name },
+    windowStart: start,
+    windowEnd: end,
+    expiresAt: end,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return { id: docRef.id };
+});
+
+export const listRouteSubscriptions = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "view your route alerts");
+
+  const snapshot = await routeSubscriptionsRef(schoolId)
+    .where("userId", "==", uid)
+    .where("expiresAt", ">", new Date())
+    .orderBy("expiresAt")
     .get();
 
-  const tripsSnapAll = await db
-    .collectionGroup("trips")
-    .where("departureEnd", "<", cutoffAllTrip)
+  return {
+    subscriptions: snapshot.docs.map((doc) => {
+      const data = doc.data() as RouteSubscriptionData;
+      return {
+        id: doc.id,
+        origin: data.origin,
+        destination: data.destination,
+        windowStart: data.windowStart.toDate().toISOString(),
+        windowEnd: data.windowEnd.toDate().toISOString(),
+      };
+    }),
+  };
+});
+
+export const deleteRouteSubscription = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "delete a route alert");
+
+  const { subscriptionId } = request.data as RouteSubscriptionActionPayload;
+  if (!subscriptionId || typeof subscriptionId !== "string") {
+    throw new HttpsError("invalid-argument", "subscriptionId is required.");
+  }
+
+  const ref = routeSubscriptionsRef(schoolId).doc(subscriptionId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    throw new HttpsError("not-found", "Route alert not found.");
+  }
+  if (snapshot.get("userId") !== uid) {
+    throw new HttpsError("permission-denied", "You can only delete your own route alerts.");
+  }
+
+  await ref.delete();
+  return { ok: true };
+});
+
+export const notifyRouteSubscribers = onDocumentCreated("schools/{schoolId}/trips/{tripId}", async (event) => {
+  const tripData = event.data?.data() as TripData | undefined;
+  const { schoolId, tripId } = event.params;
+
+  if (!tripData || tripData.status !== "open" || !tripData.origin?.id || !tripData.destination?.id) {
+    return;
+  }
+
+  // Alerts whose window overlaps the trip's, like the candidate query in findMatchingTrips.
+  const subscriptions = await routeSubscriptionsRef(schoolId)
+    .where("origin.id", "==", tripData.origin.id)
+    .where("destination.id", "==", tripData.destination.id)
+    .where("windowEnd", ">=", tripData.departureStart)
+    .where("windowStart", "<=", tripData.departureEnd)
     .get();
 
-  const tripsToDelete = [...tripsSnapOpen.docs];
-  for (const doc of tripsSnapAll.docs) {
-    if (!tripsToDelete.find((d) => d.id === doc.id)) {
-      tripsToDelete.push(doc);
+  const subscriberIds = new Set<string>();
+  subscriptions.docs.forEach((doc) => {
+    const data = doc.data() as RouteSubscriptionData;
+    if (data.userId === tripData.hostId) return;
+    subscriberIds.add(data.userId);
+  });
+  if (subscriberIds.size === 0) return;
+
+  const commonData = getCommonEmailData(tripData, tripId, await getSchoolTimezone(schoolId));
+
+  for (const subscriberId of subscriberIds) {
+    try {
+      await dispatchNotification({
+        userId: subscriberId,
+        event: "routeAlert",
+        message: routeAlertEmail({ hostNickname: tripData.hostNickname ?? "a host", trip: commonData }),
+      });
+    } catch (err) {
+      console.warn("Could not notify route subscriber", err);
     }
   }
+});
 
-  for (const tripDoc of tripsToDelete) {
-    const tripId = tripDoc.id;
-    // Derive schoolId from tripDoc path: schools/{schoolId}/trips/{tripId}
-    const pathSegments = tripDoc.ref.path.split("/");
-    // [0] schools, [1] schoolId, [2] trips, [3] tripId
-    const schoolId = pathSegments.length >= 2 ? pathSegments[1] : null;
+const MAX_REVIEW_COMMENT_LENGTH = 1000;
 
-    if (!schoolId) continue;
+// Reputation lives outside trips so it survives cleanupStaleData.
+const reputationRef = (schoolId: string, userId: string) =>
+  admin.firestore().doc(`schools/${schoolId}/reputations/${userId}`);
 
-    const batch = db.batch();
+const toReputationSummary = (data: Partial<ReputationData> | undefined): ReputationSummary => {
+  const ratingCount = data?.ratingCount ?? 0;
+  return {
+    averageRating: ratingCount > 0 ? Math.round(((data?.ratingSum ?? 0) / ratingCount) * 10) / 10 : null,
+    ratingCount,
+    noShowCount: data?.noShowCount ?? 0,
+  };
+};
 
-    // delete pairing requests for this trip
-    const reqs = await db.collection("schools").doc(schoolId).collection("pairRequests").where("tripId", "==", tripId).get();
-    reqs.docs.forEach((doc) => batch.delete(doc.ref));
+async function getReputationSummary(schoolId: string, userId: string): Promise<ReputationSummary> {
+  const snapshot = await reputationRef(schoolId, userId).get();
+  return toReputationSummary(snapshot.data() as Partial<ReputationData> | undefined);
+}
 
-    // delete chat messages subcollection. Assuming `schools/{schoolId}/tripChats/{tripId}/messages`
-    // or maybe `schools/{schoolId}/trips/{tripId}/messages`?
-    // Let's assume standard structure: schools/{schoolId}/tripChats/{tripId}/messages
-    const messages = await db.collection("schools").doc(schoolId).collection("tripChats").doc(tripId).collection("messages").get();
-    messages.docs.forEach((msg) => batch.delete(msg.ref));
+const formatReputation = (summary: ReputationSummary): string => {
+  if (summary.averageRating === null) return "No reviews yet";
+  const reviews = `${summary.averageRating}★ from ${summary.ratingCount} review${summary.ratingCount === 1 ? "" : "s"}`;
+  return summary.noShowCount > 0 ? `${reviews}, ${summary.noShowCount} no-show${summary.noShowCount === 1 ? "" : "s"}` : reviews;
+};
 
-    batch.delete(tripDoc.ref);
-    await batch.commit();
+export const submitTripReview = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "review a trip");
+
+  const { tripId, revieweeId, rating, comment, noShow } = request.data as SubmitTripReviewPayload;
+  if (!tripId || typeof tripId !== "string") {
+    throw new HttpsError("invalid-argument", "tripId is required.");
+  }
+  if (revieweeId !== undefined && typeof revieweeId !== "string") {
+    throw new HttpsError("invalid-argument", "revieweeId must be a string.");
+  }
+  if (!Number.isInteger(rating) || (rating as number) < 1 || (rating as number) > 5) {
+    throw new HttpsError("invalid-argument", "rating must be a whole number from 1 to 5.");
+  }
+  if (comment !== undefined && comment !== null && typeof comment !== "string") {
+    throw new HttpsError("invalid-argument", "comment must be a string.");
+  }
+  if (typeof comment === "string" && comment.trim().length > MAX_REVIEW_COMMENT_LENGTH) {
+    throw new HttpsError("invalid-argument", `comment must be at most ${MAX_REVIEW_COMMENT_LENGTH} characters.`);
+  }
+  if (noShow !== undefined && typeof noShow !== "boolean") {
+    throw new HttpsError("invalid-argument", "noShow must be a boolean.");
+  }
+
+  const db = admin.firestore();
+  const tripSnap = await db.doc(`schools/${schoolId}/trips/${tripId}`).get();
+  if (!tripSnap.exists) {
+    throw new HttpsError("not-found", "Trip not found.");
+  }
+  const tripData = tripSnap.data() as TripData;
+  const guests = getTripGuests(tripData);
+  const participantIds = [tripData.hostId, ...guests.map((guest) => guest.id)];
+  if (guests.length === 0 || !participantIds.includes(uid)) {
+    throw new HttpsError("permission-denied", "Only riders on a paired trip can review it.");
+  }
+  if (tripData.departureEnd.toMillis() > Date.now()) {
+    throw new HttpsError("failed-precondition", "Reviews open once the departure window has ended.");
+  }
+
+  let targetId = revieweeId as string | undefined;
+  if (!targetId) {
+    if (uid !== tripData.hostId) {
+      targetId = tripData.hostId;
+    } else if (guests.length === 1) {
+      targetId = guests[0].id;
+    } else {
+      throw new HttpsError("invalid-argument", "revieweeId is required when the trip has several guests.");
+    }
   }
+  if (targetId === uid || !participantIds.includes(targetId)) {
+    throw new HttpsError("invalid-argument", "You can only review another rider on this trip.");
+  }
+  const reviewedUserId = targetId;
+
+  // One review per reviewer, reviewee and trip; the deterministic id makes duplicates detectable in the transaction.
+  const reviewRef = db.doc(`schools/${schoolId}/tripReviews/${tripId}_${uid}_${reviewedUserId}`);
+  const repRef = reputationRef(schoolId, reviewedUserId);
 
-  // Cleanup old mail docs
-  const mailSnap = await db.collection("mail").get();
-  const mailBatch = db.batch();
-  let mailDeletes = 0;
-  mailSnap.docs.forEach((doc) => {
-    const createdField = doc.get("created") as admin.firestore.Timestamp | undefined;
-    const created = createdField?.toDate() ?? doc.createTime.toDate();
-    if (created < cutoffMail) {
-      mailBatch.delete(doc.ref);
-      mailDeletes += 1;
+  await db.runTransaction(async (txn) => {
+    const [existingReview, repSnap] = await Promise.all([txn.get(reviewRef), txn.get(repRef)]);
+    if (existingReview.exists) {
+      throw new HttpsError("already-exists", "You have already reviewed this rider for this trip.");
     }
+
+    const current = repSnap.data() as Partial<ReputationData> | undefined;
+    txn.set(reviewRef, {
+      tripId,
+      reviewerId: uid,
+      revieweeId: reviewedUserId,
+      rating,
+      comment: typeof comment === "string" && comment.trim() ? comment.trim() : null,
+      noShow: noShow === true,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    txn.set(repRef, {
+      ratingCount: (current?.ratingCount ?? 0) + 1,
+      ratingSum: (current?.ratingSum ?? 0) + (rating as number),
+      noShowCount: (current?.noShowCount ?? 0) + (noShow === true ? 1 : 0),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+  });
+
+  return { ok: true };
+});
+
+const REPORT_REASONS = ["harassment", "unsafe-behavior", "no-show", "spam", "other"];
+const MAX_REPORT_DETAILS_LENGTH = 2000;
+
+export const blockUser = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "block a rider");
+
+  const { userId } = request.data as BlockUserPayload;
+  if (!userId || typeof userId !== "string") {
+    throw new HttpsError("invalid-argument", "userId is required.");
+  }
+  if (userId === uid) {
+    throw new HttpsError("invalid-argument", "You can't block yourself.");
+  }
+
+  await blockRef(schoolId, uid, userId).set({
+    blockerId: uid,
+    blockedId: userId,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return { ok: true };
+});
+
+export const unblockUser = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "unblock a rider");
+
+  const { userId } = request.data as BlockUserPayload;
+  if (!userId || typeof userId !== "string") {
+    throw new HttpsError("invalid-argument", "userId is required.");
+  }
+
+  await blockRef(schoolId, uid, userId).delete();
+  return { ok: true };
+});
+
+// Reports land in a per-school moderation queue for campus staff to review.
+export const reportUser = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "report a rider");
+
+  const { reportedUserId, reason, details, tripId, requestId } = request.data as ReportUserPayload;
+  if (!reportedUserId || typeof reportedUserId !== "string") {
+    throw new HttpsError("invalid-argument", "reportedUserId is required.");
+  }
+  if (reportedUserId === uid) {
+    throw new HttpsError("invalid-argument", "You can't report yourself.");
+  }
+  if (typeof reason !== "string" || !REPORT_REASONS.includes(reason)) {
+    throw new HttpsError("invalid-argument", `reason must be one of: ${REPORT_REASONS.join(", ")}.`);
+  }
+  if (details !== undefined && details !== null && typeof details !== "string") {
+    throw new HttpsError("invalid-argument", "details must be a string.");
+  }
+  if (typeof details === "string" && details.trim().length > MAX_REPORT_DETAILS_LENGTH) {
+    throw new HttpsError("invalid-argument", `details must be at most ${MAX_REPORT_DETAILS_LENGTH} characters.`);
+  }
+  if ((tripId !== undefined && typeof tripId !== "string") || (requestId !== undefined && typeof requestId !== "string")) {
+    throw new HttpsError("invalid-argument", "tripId and requestId must be strings.");
+  }
+
+  const db = admin.firestore();
+  if (tripId && !(await db.doc(`schools/${schoolId}/trips/${tripId}`).get()).exists) {
+    throw new HttpsError("not-found", "Trip not found.");
+  }
+  if (requestId && !(await db.doc(`schools/${schoolId}/pairRequests/${requestId}`).get()).exists) {
+    throw new HttpsError("not-found", "Pair request not found.");
+  }
+
+  const docRef = await db.collection("schools").doc(schoolId).collection("moderationQueue").add({
+    reporterId: uid,
+    reportedUserId,
+    reason,
+    details: typeof details === "string" && details.trim() ? details.trim() : null,
+    tripId: tripId ?? null,
+    requestId: requestId ?? null,
+    status: "open",
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
   });
-  if (mailDeletes > 0) {
-    await mailBatch.commit().catch((err) => console.warn("mail cleanup failed", err));
+
+  return { id: docRef.id };
+});
+
+const DOMAIN_PATTERN = /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+function parseDomainPayload(data: AdminDomainPayload): { schoolId: string; domain: string } {
+  const { schoolId, domain } = data;
+  if (!schoolId || typeof schoolId !== "string" || schoolId.includes("/")) {
+    throw new HttpsError("invalid-argument", "schoolId is required.");
+  }
+  const normalized = typeof domain === "string" ? domain.toLowerCase().trim() : "";
+  if (!DOMAIN_PATTERN.test(normalized)) {
+    throw new HttpsError("invalid-argument", "domain must be an email domain such as university.edu or *.university.edu.");
   }
+  return { schoolId, domain: normalized };
+}
+
+export const adminAddSchoolDomain = onCall({ enforceAppCheck: true }, async (request) => {
+  const actor = await requireAdmin(request, "admin");
+  const { schoolId, domain } = parseDomainPayload(request.data as AdminDomainPayload);
+
+  // The ownership check and the write share a transaction so two schools can't claim a domain at once.
+  const db = admin.firestore();
+  const configRef = db.doc(ALLOWED_DOMAINS_DOC_PATH);
+  await db.runTransaction(async (txn) => {
+    const config = parseSchoolConfig((await txn.get(configRef)).data());
+    const owner = Object.entries(config).find(([, domains]) => domains.includes(domain))?.[0];
+    if (owner && owner !== schoolId) {
+      throw new HttpsError("already-exists", `${domain} already belongs to ${owner}.`);
+    }
+    txn.set(configRef, { [schoolId]: admin.firestore.FieldValue.arrayUnion(domain) }, { merge: true });
+  });
+  invalidateSchoolConfig();
+
+  await writeAuditLog(actor, "addSchoolDomain", { schoolId }, { domain });
+  return { ok: true };
+});
+
+// Only blocks new sign-ups. Existing users keep their schoolId claim until backfillSchoolClaims runs
+// with { clearUnmatched: true }.
+export const adminRemoveSchoolDomain = onCall({ enforceAppCheck: true }, async (request) => {
+  const actor = await requireAdmin(request, "admin");
+  const { schoolId, domain } = parseDomainPayload(request.data as AdminDomainPayload);
+
+  await admin.firestore().doc(ALLOWED_DOMAINS_DOC_PATH).set(
+    { [schoolId]: admin.firestore.FieldValue.arrayRemove(domain) },
+    { merge: true },
+  );
+  invalidateSchoolConfig();
+
+  await writeAuditLog(actor, "removeSchoolDomain", { schoolId }, { domain });
+  return { ok: true };
+});
+
+const MAX_REPORTED_UNMATCHED_USERS = 200;
+
+// Stamps the schoolId claim on every existing user from the current domain rules. Users whose domain no
+// longer matches a school are listed in the result; with { clearUnmatched: true } their schoolId claim is
+// also removed and their sessions revoked, which is what cuts them off after a domain is removed.
+export const backfillSchoolClaims = onCall({ enforceAppCheck: true, timeoutSeconds: 540 }, async (request) => {
+  const actor = await requireAdmin(request, "admin");
+  const clearUnmatched = (request.data as BackfillSchoolClaimsPayload | undefined)?.clearUnmatched === true;
+
+  const config = await getSchoolConfig({ fresh: true });
+  let pageToken: string | undefined;
+  let scanned = 0;
+  let updated = 0;
+  let cleared = 0;
+  const unmatched: { uid: string; email: string | null }[] = [];
+  let unmatchedCount = 0;
+
+  do {
+    const page = await admin.auth().listUsers(1000, pageToken);
+    for (const user of page.users) {
+      scanned += 1;
+      const schoolId = getSchoolId(user.email, config);
+      if (!schoolId) {
+        unmatchedCount += 1;
+        if (unmatched.length < MAX_REPORTED_UNMATCHED_USERS) {
+          unmatched.push({ uid: user.uid, email: user.email ?? null });
+        }
+        if (clearUnmatched && user.customClaims?.schoolId !== undefined) {
+          const { schoolId: _removed, ...claims } = user.customClaims;
+          await admin.auth().setCustomUserClaims(user.uid, claims);
+          // ID tokens already issued keep the old claim until they expire (at most an hour).
+          await admin.auth().revokeRefreshTokens(user.uid);
+          cleared += 1;
+        }
+        continue;
+      }
+      if (user.customClaims?.schoolId === schoolId) continue;
+
+      await admin.auth().setCustomUserClaims(user.uid, { ...user.customClaims, schoolId });
+      updated += 1;
+    }
+    pageToken = page.pageToken;
+  } while (pageToken);
+
+  console.log(
+    `School claim backfill scanned ${scanned} users, updated ${updated}, unmatched ${unmatchedCount}, cleared ${cleared}`,
+  );
+  await writeAuditLog(actor, "backfillSchoolClaims", {}, { scanned, updated, unmatchedCount, cleared, clearUnmatched });
+  return { scanned, updated, unmatchedCount, cleared, unmatched };
+});
+
+export const adminSuspendUser = onCall({ enforceAppCheck: true }, async (request) => {
+  const actor = await requireAdmin(request, "moderator");
+
+  const { userId, reason } = request.data as AdminUserPayload;
+  if (!userId || typeof userId !== "string") {
+    throw new HttpsError("invalid-argument", "userId is required.");
+  }
+  if (userId === actor.uid) {
+    throw new HttpsError("invalid-argument", "You can't suspend yourself.");
+  }
+
+  const user = await admin.auth().getUser(userId).catch(() => null);
+  if (!user) {
+    throw new HttpsError("not-found", "User not found.");
+  }
+
+  await suspensionRef(userId).set({
+    userId,
+    email: user.email?.toLowerCase() ?? null,
+    reason: typeof reason === "string" && reason.trim() ? reason.trim() : null,
+    suspendedBy: actor.uid,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  await admin.auth().setCustomUserClaims(userId, { ...user.customClaims, suspended: true });
+  await admin.auth().revokeRefreshTokens(userId);
+
+  await writeAuditLog(actor, "suspendUser", { userId }, { reason: reason ?? null });
+  return { ok: true };
+});
+
+export const adminReinstateUser = onCall({ enforceAppCheck: true }, async (request) => {
+  const actor = await requireAdmin(request, "moderator");
+
+  const { userId } = request.data as AdminUserPayload;
+  if (!userId || typeof userId !== "string") {
+    throw new HttpsError("invalid-argument", "userId is required.");
+  }
+
+  await suspensionRef(userId).delete();
+  const user = await admin.auth().getUser(userId).catch(() => null);
+  if (user) {
+    const claims = { ...user.customClaims };
+    delete claims.suspended;
+    await admin.auth().setCustomUserClaims(userId, claims);
+  }
+
+  await writeAuditLog(actor, "reinstateUser", { userId });
+  return { ok: true };
+});
+
+export const adminCancelTrip = onCall({ enforceAppCheck: true }, async (request) => {
+  const actor = await requireAdmin(request, "moderator");
+
+  const { schoolId, tripId, reason } = request.data as AdminTripPayload;
+  if (!schoolId || typeof schoolId !== "string" || !tripId || typeof tripId !== "string") {
+    throw new HttpsError("invalid-argument", "schoolId and tripId are required.");
+  }
+
+  const tripData = await cancelTripAs(schoolId, tripId, reason, {});
+
+  try {
+    await dispatchNotification({
+      userId: tripData.hostId,
+      event: "tripCancelled",
+      message: hostTripCancelledByAdminEmail({
+        hostNickname: tripData.hostNickname ?? "there",
+        trip: getCommonEmailData(tripData, tripId, await getSchoolTimezone(schoolId)),
+        reason: typeof reason === "string" && reason.trim() ? reason.trim() : null,
+      }),
+    });
+  } catch (emailError) {
+    console.warn("Could not notify host of admin cancellation", emailError);
+  }
+
+  await writeAuditLog(actor, "cancelTrip", { schoolId, tripId }, { reason: reason ?? null });
+  return { ok: true };
+});
+
+const getHoursToTrip = (departureStart: Date): number => {
+  const now = new Date();
+  const diffMs = departureStart.getTime() - now.getTime();
+  return Math.round(diffMs / (1000 * 60 * 60));
+};
+
+const getCommonEmailData = (
+  tripData: any,
+  tripId: string,
+  schoolTimezone: string
+): TripSummary => {
+  const origin = tripData.origin.name;
+  const destination = tripData.destination.name;
+  const tripTimezone = tripData.timezone || schoolTimezone;
+  const dateOptions: Intl.DateTimeFormatOptions = {
+    timeZone: tripTimezone,
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "shortOffset",
+  };
+
+  const start = tripData.departureStart?.toDate().toLocaleString("en-US", dateOptions) ?? "";
+  const end = tripData.departureEnd?.toDate().toLocaleString("en-US", { ...dateOptions, timeZoneName: undefined }) ?? ""; // Concise end time? Or full? User asked "always clearly... display timezone".
+  // Maybe just start time has timezone, end time implicitly same.
+  // Or show both? "Jan 1, 10:00 AM GMT-5 – 11:00 AM"
+  // Let's stick to simple toLocaleString which includes date.
+
+  const tripUrl = `${frontendBaseUrl}/trips/${tripId}`;
+
+  const departureDate = tripData.departureStart?.toDate();
+  const hoursToTrip = departureDate ? getHoursToTrip(departureDate) : 0;
+
+  return { origin, destination, start, end, tripUrl, hoursToTrip };
+};
+
+// One calendar event per trip, shared by acceptance emails and calendar feeds so updates replace it in place.
+const getTripCalendarEvent = (tripData: TripData, tripId: string, commonData: TripSummary): CalendarEvent => ({
+  uid: `${tripId}@${new URL(frontendBaseUrl).host}`,
+  start: tripData.departureStart.toDate(),
+  end: tripData.departureEnd.toDate(),
+  summary: `Peer Ride: ${commonData.origin} → ${commonData.destination}`,
+  description: [
+    `Departure window: ${commonData.start} – ${commonData.end}`,
+    `Host: ${tripData.hostNickname ?? "Host"}`,
+    `Trip details and chat: ${commonData.tripUrl}`,
+  ].join("\n"),
+  location: commonData.origin,
+  url: commonData.tripUrl,
+});
+
+const sendGuestAcceptanceEmail = async (
+  guestId: string,
+  hostNickname: string,
+  commonData: TripSummary,
+  coRiders: string[],
+  calendar: EmailAttachment,
+  contactMethod?: unknown,
+  contactValue?: unknown
+) => {
+  await dispatchNotification({
+    userId: guestId,
+    event: "requestAccepted",
+    message: {
+      ...guestAcceptedEmail({
+        hostNickname,
+        trip: commonData,
+        coRiders,
+        hostContact: { name: hostNickname, method: contactMethod, value: contactValue },
+      }),
+      attachments: [calendar],
+    },
+  });
+};
+
+const sendHostAcceptanceEmail = async (
+  hostId: string,
+  guestNickname: string,
+  commonData: TripSummary,
+  coRiders: string[],
+  seatsFilled: string,
+  calendar: EmailAttachment,
+  contactMethod?: unknown,
+  contactValue?: unknown
+) => {
+  await dispatchNotification({
+    userId: hostId,
+    event: "requestAccepted",
+    message: {
+      ...hostAcceptedEmail({
+        guestNickname,
+        trip: commonData,
+        coRiders,
+        seatsFilled,
+        guestContact: { name: guestNickname, method: contactMethod, value: contactValue },
+      }),
+      attachments: [calendar],
+    },
+  });
+};
+
+// Personal calendar feeds. Only a hash of each token is stored, so a feed URL is shown once when created;
+// creating a new one revokes the old.
+const calendarFeedsRef = () => admin.firestore().collection("calendarFeeds");
+
+const calendarFeedId = (token: string): string => createHash("sha256").update(token).digest("hex");
+
+const calendarFeedBaseUrl = (
+  process.env.CALENDAR_FEED_URL ?? `https://us-central1-${process.env.GCLOUD_PROJECT}.cloudfunctions.net/calendarFeed`
+).replace(/\/$/, "");
+
+async function revokeCalendarFeeds(userId: string): Promise<number> {
+  const existing = await calendarFeedsRef().where("userId", "==", userId).get();
+  await Promise.all(existing.docs.map((doc) => doc.ref.delete()));
+  return existing.size;
+}
+
+export const createCalendarFeed = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "subscribe to your trip calendar");
+
+  await revokeCalendarFeeds(uid);
+  const token = randomBytes(32).toString("base64url");
+  await calendarFeedsRef().doc(calendarFeedId(token)).set({
+    userId: uid,
+    schoolId,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return { url: `${calendarFeedBaseUrl}?token=${token}` };
+});
+
+export const revokeCalendarFeed = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid } = await requireSchoolCaller(request, "change your trip calendar");
+  const revoked = await revokeCalendarFeeds(uid);
+  return { ok: true, revoked };
+});
+
+// GET ?token=... returns the user's upcoming hosted and joined trips as iCalendar.
+export const calendarFeed = onRequest(async (req, res) => {
+  const token = typeof req.query.token === "string" ? req.query.token : "";
+  if (req.method !== "GET" || !token) {
+    res.status(400).send("Missing token.");
+    return;
+  }
+
+  const feedSnap = await calendarFeedsRef().doc(calendarFeedId(token)).get();
+  const feed = feedSnap.data() as { userId: string; schoolId: string } | undefined;
+  if (!feed || (await suspensionRef(feed.userId).get()).exists) {
+    res.status(404).send("Calendar not found.");
+    return;
+  }
+
+  const db = admin.firestore();
+  const schoolRef = db.collection("schools").doc(feed.schoolId);
+  const now = new Date();
+  const [hosted, joinedRequests] = await Promise.all([
+    schoolRef.collection("trips")
+      .where("hostId", "==", feed.userId)
+      .where("status", "in", ["open", "paired"])
+      .where("departureEnd", ">=", now)
+      .get(),
+    schoolRef.collection("pairRequests")
+      .where("requesterId", "==", feed.userId)
+      .where("status", "==", "accepted")
+      .get(),
+  ]);
+  const joinedRefs = joinedRequests.docs.map((doc) => schoolRef.collection("trips").doc(doc.get("tripId") as string));
+  const joined = joinedRefs.length > 0 ? await db.getAll(...joinedRefs) : [];
+
+  const timezone = await getSchoolTimezone(feed.schoolId);
+  const events = [...hosted.docs, ...joined]
+    .filter((doc) => {
+      const trip = doc.data() as TripData | undefined;
+      if (!trip || (trip.status !== "open" && trip.status !== "paired")) return false;
+      if (trip.departureEnd.toMillis() < now.getTime()) return false;
+      return trip.hostId === feed.userId || getTripGuests(trip).some((guest) => guest.id === feed.userId);
+    })
+    .map((doc) => {
+      const trip = doc.data() as TripData;
+      return {
+        ...getTripCalendarEvent(trip, doc.id, getCommonEmailData(trip, doc.id, timezone)),
+        lastModified: doc.updateTime?.toDate(),
+      };
+    });
+
+  res.set("Content-Type", "text/calendar; charset=utf-8");
+  res.set("Cache-Control", "private, max-age=900");
+  res.status(200).send(renderCalendar(events, "Peer Ride trips"));
+});
+
+type PairRequestNotice = {
+  requestData: Record<string, unknown>
+  requesterId: string
+  tripId: string
+  tripRef: admin.firestore.DocumentReference
+  tripData: TripData
+  commonData: TripSummary
+  guestNickname: string
+  hostNickname: string
+}
+
+const notifyRequestAccepted = async (
+  { requestData, requesterId, tripId, tripRef, tripData, commonData, guestNickname, hostNickname }: PairRequestNotice,
+) => {
+  const guests = getTripGuests(tripData);
+  const [hostContact, guestContact] = await Promise.all([
+    readContact(tripRef, tripData.hostId, { method: tripData.hostContactMethod, value: tripData.hostContactValue }),
+    readContact(tripRef, requesterId, {
+      method: requestData.requesterContactMethod as string | undefined,
+      value: requestData.requesterContactValue as string | undefined,
+    }),
+  ]);
+  const calendar = calendarAttachment(getTripCalendarEvent(tripData, tripId, commonData));
+
+  // Notify Guest
+  try {
+    // Guest receives Host's contact info
+    await sendGuestAcceptanceEmail(
+      requesterId,
+      hostNickname,
+      commonData,
+      guests.filter((guest) => guest.id !== requesterId).map((guest) => guest.nickname),
+      calendar,
+      hostContact.method,
+      hostContact.value
+    );
+  } catch (err) {
+    console.warn("Could not notify requester of acceptance", err);
+  }
+
+  // Notify Host
+  try {
+    if (tripData.hostId) {
+      // Host receives Guest's contact info
+      await sendHostAcceptanceEmail(
+        tripData.hostId,
+        guestNickname,
+        commonData,
+        guests.map((guest) => guest.nickname),
+        `${guests.length}/${getTripSeats(tripData)}`,
+        calendar,
+        guestContact.method,
+        guestContact.value
+      );
+    }
+  } catch (err) {
+    console.warn("Could not notify host of acceptance", err);
+  }
+};
+
+const notifyTripCancelled = ({ requesterId, tripData, commonData }: PairRequestNotice) => dispatchNotification({
+  userId: requesterId,
+  event: "tripCancelled",
+  message: tripCancelledEmail({
+    trip: commonData,
+    cancelledBy: tripData.cancelledBy ?? "host",
+    reason: tripData.cancelReason ?? null,
+    appUrl: frontendBaseUrl,
+  }),
+});
+
+// Who hears about a pair request entering each status. Every status is listed, so a new one can't be
+// added without deciding who to tell; null means nobody is emailed.
+const PAIR_REQUEST_NOTIFIERS: Record<PairRequestStatus, ((notice: PairRequestNotice) => Promise<void>) | null> = {
+  // createPairRequest tells the host about new requests.
+  pending: null,
+  accepted: notifyRequestAccepted,
+  // Pending requests declined because the host cancelled the trip get the cancellation email instead.
+  declined: async (notice) => notice.requestData.declineReason === "trip-cancelled"
+    ? notifyTripCancelled(notice)
+    : dispatchNotification({
+      userId: notice.requesterId,
+      event: "requestDeclined",
+      message: requestDeclinedEmail({
+        hostNickname: notice.tripData.hostNickname ?? notice.hostNickname,
+        trip: notice.commonData,
+        appUrl: frontendBaseUrl,
+      }),
+    }),
+  withdrawn: async ({ tripData, commonData, guestNickname, hostNickname }) => {
+    if (!tripData.hostId) return;
+    await dispatchNotification({
+      userId: tripData.hostId,
+      event: "requestWithdrawn",
+      message: requestWithdrawnEmail({ hostNickname: tripData.hostNickname ?? hostNickname, guestNickname, trip: commonData }),
+    });
+  },
+  cancelled: notifyTripCancelled,
+  removed: ({ requesterId, tripData, commonData, hostNickname }) => dispatchNotification({
+    userId: requesterId,
+    event: "pairingEnded",
+    message: guestRemovedEmail({
+      hostNickname: tripData.hostNickname ?? hostNickname,
+      trip: commonData,
+      appUrl: frontendBaseUrl,
+    }),
+  }),
+  left: async ({ tripData, commonData, guestNickname, hostNickname }) => {
+    if (!tripData.hostId) return;
+    await dispatchNotification({
+      userId: tripData.hostId,
+      event: "pairingEnded",
+      message: guestLeftEmail({
+        hostNickname: tripData.hostNickname ?? hostNickname,
+        guestNickname,
+        trip: commonData,
+        reopened: tripData.status === "open",
+      }),
+    });
+  },
+};
+
+export const notifyPairAcceptance = onDocumentUpdated("schools/{schoolId}/pairRequests/{requestId}", async (event) => {
+  const beforeStatus = event.data?.before.data()?.status as string | undefined;
+  const afterData = event.data?.after.data() as Record<string, unknown> | undefined;
+  const afterStatus = afterData?.status as PairRequestStatus | undefined;
+  const schoolId = event.params?.schoolId;
+
+  if (!afterData || !afterStatus || beforeStatus === afterStatus || !schoolId) {
+    return;
+  }
+
+  if (!PAIR_REQUEST_TRANSITIONS[afterStatus] || !canTransitionPairRequest(beforeStatus, afterStatus)) {
+    console.warn(`Unexpected pair request transition ${beforeStatus} -> ${afterStatus}`, event.params?.requestId);
+    return;
+  }
+  const notify = PAIR_REQUEST_NOTIFIERS[afterStatus];
+  if (!notify) return;
+
+  const requesterId = afterData.requesterId as string | undefined;
+  const tripId = afterData.tripId as string | undefined;
+  if (!requesterId || !tripId) return;
+
+  const tripSnapshot = await admin.firestore().doc(`schools/${schoolId}/trips/${tripId}`).get();
+  const tripData = tripSnapshot.data() as TripData | undefined;
+  if (!tripData) return;
+
+  try {
+    await notify({
+      requestData: afterData,
+      requesterId,
+      tripId,
+      tripRef: tripSnapshot.ref,
+      tripData,
+      commonData: getCommonEmailData(tripData, tripId, await getSchoolTimezone(schoolId)),
+      guestNickname: (afterData.requesterName as string | undefined) ?? "Guest",
+      hostNickname: (afterData.hostNickname as string | undefined) ?? "Host",
+    });
+  } catch (err) {
+    console.warn(`Could not send the "${afterStatus}" pair request notification`, err);
+  }
+});
+
+export const getMyNotificationPreferences = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid } = await requireSchoolCaller(request, "view notification settings");
+  return getNotificationPreferences(uid);
+});
+
+// Accepts { token, platform?: "web" | "ios" | "android" } from the client's FCM SDK.
+export const registerPushToken = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid } = await requireSchoolCaller(request, "register for push notifications");
+  const { token, platform } = (request.data ?? {}) as { token?: unknown; platform?: unknown };
+  await registerDeviceToken(uid, token, platform);
+  return { success: true };
+});
+
+export const unregisterPushToken = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid } = await requireSchoolCaller(request, "unregister push notifications");
+  await unregisterDeviceToken(uid, (request.data ?? {}).token);
+  return { success: true };
+});
+
+// Accepts { events: { pairRequestReceived: "hourly", ... }, channels: { requestAccepted: "push", ... },
+// muteDeclines: true }; omitted fields are unchanged.
+export const setNotificationPreferences = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid } = await requireSchoolCaller(request, "change notification settings");
+  return updateNotificationPreferences(uid, request.data);
+});
+
+// Scheduled digests: hourly, plus a daily digest each morning.
+export const sendHourlyDigests = onSchedule({
+  schedule: "0 * * * *",
+  timeZone: DEFAULT_TIMEZONE,
+  retryCount: 3,
+}, async () => {
+  const sent = await sendNotificationDigests("hourly", frontendBaseUrl);
+  if (sent > 0) {
+    console.log(`Sent ${sent} hourly digests`);
+  }
+});
+
+export const sendDailyDigests = onSchedule({
+  schedule: "0 7 * * *",
+  timeZone: DEFAULT_TIMEZONE,
+  retryCount: 3,
+}, async () => {
+  const sent = await sendNotificationDigests("daily", frontendBaseUrl);
+  if (sent > 0) {
+    console.log(`Sent ${sent} daily digests`);
+  }
+});
+
+// Each reminder goes out once per trip, when departure falls inside its lead-time window.
+const DEPARTURE_REMINDERS: Record<ReminderKind, { fromHours: number; toHours: number; label: string }> = {
+  day: { fromHours: 22, toHours: 24, label: "tomorrow" },
+  soon: { fromHours: 1, toHours: 2, label: "in about 2 hours" },
+};
+
+async function sendDepartureReminder(
+  tripRef: admin.firestore.DocumentReference,
+  tripData: TripData,
+  kind: ReminderKind,
+): Promise<boolean> {
+  const db = admin.firestore();
+  const guests = getTripGuests(tripData);
+  // Trips live at schools/{schoolId}/trips/{tripId}.
+  const schoolId = tripRef.parent.parent?.id as string;
+  const commonData = getCommonEmailData(tripData, tripRef.id, await getSchoolTimezone(schoolId));
+  const { label } = DEPARTURE_REMINDERS[kind];
+  const hostNickname = tripData.hostNickname ?? "Host";
+
+  const hostContact = await readContact(tripRef, tripData.hostId, {
+    method: tripData.hostContactMethod,
+    value: tripData.hostContactValue,
+  });
+  const guestContacts: ContactDetails[] = await Promise.all(guests.map(async (guest) => {
+    const contact = await readContact(tripRef, guest.id, { method: guest.guestContactMethod, value: guest.guestContactValue });
+    return { name: guest.nickname, method: contact.method, value: contact.value };
+  }));
+  const notifications = [
+    {
+      userId: tripData.hostId,
+      event: "departureReminder" as const,
+      message: hostDepartureReminderEmail({ hostNickname, trip: commonData, when: label, guestContacts }),
+    },
+    ...guests.map((guest) => ({
+      userId: guest.id,
+      event: "departureReminder" as const,
+      message: guestDepartureReminderEmail({
+        hostNickname,
+        trip: commonData,
+        when: label,
+        coRiders: guests.filter((other) => other.id !== guest.id).map((other) => other.nickname),
+        hostContact: { name: hostNickname, method: hostContact.method, value: hostContact.value },
+      }),
+    })),
+  ];
+  const writes = (await Promise.all(notifications.map(prepareNotification))).flat();
+
+  // The marker and the notification documents commit together, so a retry either sees the marker or sends fresh.
+  const committed = await db.runTransaction(async (txn) => {
+    const fresh = await txn.get(tripRef);
+    const freshData = fresh.data() as TripData | undefined;
+    if (!freshData || freshData.remindersSent?.[kind]) {
+      return false;
+    }
+    if (freshData.departureStart.toMillis() !== tripData.departureStart.toMillis() || getTripGuests(freshData).length === 0) {
+      return false;
+    }
+    writes.forEach((write) => txn.set(write.ref, write.data));
+    txn.update(tripRef, { [`remindersSent.${kind}`]: admin.firestore.FieldValue.serverTimestamp() });
+    return true;
+  });
+
+  // Pushes can't join the transaction, so they follow once the marker is written and are never retried.
+  if (committed) {
+    const results = await Promise.allSettled(notifications.map(sendPushNotification));
+    results.forEach((result) => {
+      if (result.status === "rejected") console.warn("Push reminder failed", result.reason);
+    });
+  }
+  return committed;
+}
+
+// Scheduled reminders: every 15 minutes. Emails host and guests roughly 24 hours and 2 hours before departure.
+export const sendDepartureReminders = onSchedule({
+  schedule: "*/15 * * * *",
+  timeZone: DEFAULT_TIMEZONE,
+  retryCount: 3,
+}, async () => {
+  const db = admin.firestore();
+  const now = Date.now();
+  let failures = 0;
+
+  for (const [kind, window] of Object.entries(DEPARTURE_REMINDERS) as [ReminderKind, typeof DEPARTURE_REMINDERS[ReminderKind]][]) {
+    const trips = await db
+      .collectionGroup("trips")
+      .where("status", "in", ["open", "paired"])
+      .where("departureStart", ">=", new Date(now + window.fromHours * 60 * 60 * 1000))
+      .where("departureStart", "<=", new Date(now + window.toHours * 60 * 60 * 1000))
+      .get();
+
+    let sent = 0;
+    for (const tripDoc of trips.docs) {
+      const tripData = tripDoc.data() as TripData;
+      if (tripData.remindersSent?.[kind] || getTripGuests(tripData).length === 0) continue;
+      try {
+        if (await sendDepartureReminder(tripDoc.ref, tripData, kind)) {
+          sent += 1;
+        }
+      } catch (err) {
+        console.warn(`Departure reminder (${kind}) failed for trip ${tripDoc.id}`, err);
+        failures += 1;
+      }
+    }
+    if (sent > 0) {
+      console.log(`Sent ${sent} "${kind}" departure reminders`);
+    }
+  }
+
+  // Throwing lets the scheduler retry; trips already reminded are skipped on the next attempt.
+  if (failures > 0) {
+    throw new Error(`${failures} departure reminders failed`);
+  }
+});
+
+const MAX_CHAT_MESSAGE_LENGTH = 1000;
+const UNREAD_CHAT_EMAIL_DELAY_MINUTES = 15;
+
+const tripChatRef = (schoolId: string, tripId: string) => admin.firestore().doc(`schools/${schoolId}/tripChats/${tripId}`);
+
+const getChatParticipantIds = (trip: TripData): string[] =>
+  [trip.hostId, ...getTripGuests(trip).map((guest) => guest.id)].filter((id) => !trip.deletedUserIds?.includes(id));
+
+// The chat is open while the trip is active and has at least one confirmed guest.
+const isChatReadOnly = (trip: TripData): boolean =>
+  (trip.status !== "open" && trip.status !== "paired") || getTripGuests(trip).length === 0;
+
+const getUnreadAlertDueAt = (unread: Record<string, ChatUnreadState>, participantIds: string[]): admin.firestore.Timestamp | null => {
+  const due = participantIds
+    .map((id) => unread[id])
+    .filter((state) => state && state.count > 0 && !state.notified && state.since)
+    .map((state) => (state.since as admin.firestore.Timestamp).toMillis() + UNREAD_CHAT_EMAIL_DELAY_MINUTES * 60 * 1000);
+  return due.length > 0 ? admin.firestore.Timestamp.fromMillis(Math.min(...due)) : null;
+};
+
+// Only the host and confirmed guests may post; each other participant's unread counter goes up by one.
+export const sendTripMessage = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "send chat messages");
+
+  const { tripId, text } = request.data as TripChatPayload;
+  if (!tripId || typeof tripId !== "string") {
+    throw new HttpsError("invalid-argument", "tripId is required.");
+  }
+  if (typeof text !== "string" || !text.trim()) {
+    throw new HttpsError("invalid-argument", "Message text is required.");
+  }
+  if (text.trim().length > MAX_CHAT_MESSAGE_LENGTH) {
+    throw new HttpsError("invalid-argument", `Messages can be at most ${MAX_CHAT_MESSAGE_LENGTH} characters.`);
+  }
+
+  await enforceRateLimit(schoolId, uid, "sendTripMessage");
+
+  const db = admin.firestore();
+  const tripRef = db.doc(`schools/${schoolId}/trips/${tripId}`);
+  const chatRef = tripChatRef(schoolId, tripId);
+  const messageRef = chatRef.collection("messages").doc();
+
+  await db.runTransaction(async (txn) => {
+    const [tripSnap, chatSnap] = await Promise.all([txn.get(tripRef), txn.get(chatRef)]);
+    if (!tripSnap.exists) {
+      throw new HttpsError("not-found", "Trip not found.");
+    }
+    const tripData = tripSnap.data() as TripData;
+    const participantIds = getChatParticipantIds(tripData);
+    if (!participantIds.includes(uid)) {
+      throw new HttpsError("permission-denied", "Only the host and confirmed guests can post in this chat.");
+    }
+    if (isChatReadOnly(tripData)) {
+      throw new HttpsError("failed-precondition", "This chat is read-only because the trip is no longer paired.");
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const unread = { ...((chatSnap.data() as TripChatData | undefined)?.unread ?? {}) };
+    participantIds
+      .filter((id) => id !== uid)
+      .forEach((id) => {
+        const state = unread[id];
+        unread[id] = {
+          count: (state?.count ?? 0) + 1,
+          since: state?.count ? state.since : now,
+          notified: state?.count ? state.notified : false,
+        };
+      });
+    unread[uid] = { count: 0, since: null, notified: false };
+
+    const senderNickname = uid === tripData.hostId
+      ? tripData.hostNickname ?? "Host"
+      : getTripGuests(tripData).find((guest) => guest.id === uid)?.nickname ?? "Guest";
+    txn.set(messageRef, { senderId: uid, senderNickname, text: text.trim(), createdAt: now });
+    txn.set(chatRef, {
+      hostId: tripData.hostId,
+      participantIds,
+      readOnly: false,
+      unread,
+      unreadAlertDueAt: getUnreadAlertDueAt(unread, participantIds),
+      lastMessageAt: now,
+    } satisfies TripChatData);
+  });
+
+  return { messageId: messageRef.id };
+});
+
+export const markTripChatRead = onCall({ enforceAppCheck: true }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "read chat messages");
+
+  const { tripId } = request.data as TripChatPayload;
+  if (!tripId || typeof tripId !== "string") {
+    throw new HttpsError("invalid-argument", "tripId is required.");
+  }
+
+  const db = admin.firestore();
+  const chatRef = tripChatRef(schoolId, tripId);
+  await db.runTransaction(async (txn) => {
+    const chatSnap = await txn.get(chatRef);
+    const chatData = chatSnap.data() as TripChatData | undefined;
+    if (!chatData) return;
+    // Former participants keep read access, so they may clear their own counter too.
+    if (!chatData.participantIds.includes(uid) && !chatData.unread?.[uid]) {
+      throw new HttpsError("permission-denied", "You are not part of this chat.");
+    }
+    const unread = { ...chatData.unread, [uid]: { count: 0, since: null, notified: false } };
+    txn.update(chatRef, {
+      unread,
+      unreadAlertDueAt: chatData.readOnly ? null : getUnreadAlertDueAt(unread, chatData.participantIds),
+    });
+  });
+
+  return { success: true };
+});
+
+// Keeps chat membership and the read-only flag in step with the trip's guests and status.
+export const syncTripChatAccess = onDocumentUpdated("schools/{schoolId}/trips/{tripId}", async (event) => {
+  const before = event.data?.before.data() as TripData | undefined;
+  const after = event.data?.after.data() as TripData | undefined;
+  const { schoolId, tripId } = event.params;
+  if (!before || !after) return;
+
+  const sameParticipants = getChatParticipantIds(after).join(",") === getChatParticipantIds(before).join(",");
+  if (sameParticipants && isChatReadOnly(after) === isChatReadOnly(before)) {
+    return;
+  }
+
+  const db = admin.firestore();
+  const chatRef = tripChatRef(schoolId, tripId);
+  await db.runTransaction(async (txn) => {
+    // Triggers may run out of order, so work from the trip as it is now rather than this event's snapshot.
+    const [chatSnap, tripSnap] = await Promise.all([txn.get(chatRef), txn.get(event.data!.after.ref)]);
+    const chatData = chatSnap.data() as TripChatData | undefined;
+    const tripData = tripSnap.data() as TripData | undefined;
+    if (!chatData || !tripData) return;
+    const participantIds = getChatParticipantIds(tripData);
+    const readOnly = isChatReadOnly(tripData);
+    txn.update(chatRef, {
+      participantIds,
+      readOnly,
+      unreadAlertDueAt: readOnly ? null : getUnreadAlertDueAt(chatData.unread ?? {}, participantIds),
+    });
+  });
+});
+
+// Scheduled: every 5 minutes. Emails each participant once per unread streak that has waited
+// UNREAD_CHAT_EMAIL_DELAY_MINUTES; reading the chat starts a new streak.
+export const sendUnreadChatEmails = onSchedule({
+  schedule: "*/5 * * * *",
+  timeZone: DEFAULT_TIMEZONE,
+  retryCount: 3,
+}, async () => {
+  const db = admin.firestore();
+  const chats = await db
+    .collectionGroup("tripChats")
+    .where("unreadAlertDueAt", "<=", admin.firestore.Timestamp.now())
+    .get();
+
+  let sent = 0;
+  let failures = 0;
+  for (const chatDoc of chats.docs) {
+    try {
+      sent += await sendUnreadChatEmailsFor(chatDoc.ref);
+    } catch (err) {
+      failures += 1;
+      console.error(`Unread chat emails failed for ${chatDoc.ref.path}`, err);
+    }
+  }
+
+  if (sent > 0) {
+    console.log(`Sent ${sent} unread chat emails`);
+  }
+  if (failures > 0) {
+    throw new Error(`${failures} chats failed unread email processing; retrying.`);
+  }
+});
+
+async function sendUnreadChatEmailsFor(chatRef: admin.firestore.DocumentReference): Promise<number> {
+  const db = admin.firestore();
+  const schoolRef = chatRef.parent.parent;
+  if (!schoolRef) return 0;
+  const tripRef = schoolRef.collection("trips").doc(chatRef.id);
+
+  const [chatSnap, tripSnap] = await Promise.all([chatRef.get(), tripRef.get()]);
+  const chatData = chatSnap.data() as TripChatData | undefined;
+  const tripData = tripSnap.data() as TripData | undefined;
+  if (!chatData || !tripData) return 0;
+
+  const cutoff = Date.now() - UNREAD_CHAT_EMAIL_DELAY_MINUTES * 60 * 1000;
+  const isDue = (state: ChatUnreadState | undefined): boolean =>
+    !!state && state.count > 0 && !state.notified && !!state.since && state.since.toMillis() <= cutoff;
+  const dueIds = chatData.participantIds.filter((id) => isDue(chatData.unread?.[id]));
+
+  const nicknames = new Map<string, string>([
+    [tripData.hostId, tripData.hostNickname ?? "Host"],
+    ...getTripGuests(tripData).map((guest) => [guest.id, guest.nickname] as [string, string]),
+  ]);
+  const commonData = getCommonEmailData(tripData, tripRef.id, await getSchoolTimezone(schoolRef.id));
+  const prepared = await Promise.all(dueIds.map(async (id) => {
+    const senders = chatData.participantIds.filter((other) => other !== id).map((other) => nicknames.get(other) ?? "Co-rider");
+    const writes = await prepareNotification({
+      userId: id,
+      event: "chatMessage",
+      message: unreadChatEmail({
+        recipientNickname: nicknames.get(id) ?? "there",
+        senders,
+        count: chatData.unread?.[id]?.count ?? 1,
+        trip: commonData,
+      }),
+    });
+    return { id, writes };
+  }));
+
+  // The notified flag and the emails commit together; a newer read or message in between wins.
+  return db.runTransaction(async (txn) => {
+    const fresh = await txn.get(chatRef);
+    const freshData = fresh.data() as TripChatData | undefined;
+    if (!freshData) return 0;
+
+    const unread = { ...freshData.unread };
+    let count = 0;
+    prepared
+      .filter(({ id }) => isDue(unread[id]) && unread[id].count === chatData.unread?.[id]?.count)
+      .forEach(({ id, writes }) => {
+        writes.forEach((write) => txn.set(write.ref, write.data));
+        unread[id] = { ...unread[id], notified: true };
+        count += 1;
+      });
+    txn.update(chatRef, { unread, unreadAlertDueAt: getUnreadAlertDueAt(unread, freshData.participantIds) });
+    return count;
+  });
+}
+
+const DELETED_USER_NAME = "Former member";
+const WRITE_CHUNK_SIZE = 400;
+// deleteMyAccount asks for a fresh sign-in so a stolen long-lived session can't erase an account.
+const MAX_DELETE_AUTH_AGE_SECONDS = 10 * 60;
+
+// Commits writes in batches below Firestore's 500-write limit.
+async function commitInChunks(writes: ((batch: admin.firestore.WriteBatch) => void)[]): Promise<void> {
+  for (let i = 0; i < writes.length; i += WRITE_CHUNK_SIZE) {
+    const batch = admin.firestore().batch();
+    writes.slice(i, i + WRITE_CHUNK_SIZE).forEach((write) => write(batch));
+    await batch.commit();
+  }
+}
+
+// Firestore values as plain JSON: timestamps and dates become ISO strings, references become paths.
+const toExportValue = (value: unknown): unknown => {
+  if (value instanceof admin.firestore.Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof admin.firestore.DocumentReference) return value.path;
+  if (Array.isArray(value)) return value.map(toExportValue);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toExportValue(entry)]));
+  }
+  return value;
+};
+
+const exportDoc = async (doc: admin.firestore.DocumentSnapshot, contactId?: string) => ({
+  id: doc.id,
+  ...doc.data(),
+  ...(contactId ? { contact: (await privateContactRef(doc.ref, contactId).get()).data() ?? null } : {}),
+});
+
+// Trips the user requested to join: their guest-list entry and the contact copy kept for the host.
+const exportJoinedTrips = async (schoolId: string, uid: string, requests: admin.firestore.QuerySnapshot) => {
+  const tripsRef = admin.firestore().collection(`schools/${schoolId}/trips`);
+  const tripIds = [...new Set(requests.docs.map((doc) => doc.get("tripId") as string))];
+  const joined = await Promise.all(tripIds.map(async (tripId) => {
+    const [trip, contact] = await Promise.all([
+      tripsRef.doc(tripId).get(),
+      privateContactRef(tripsRef.doc(tripId), uid).get(),
+    ]);
+    const tripData = trip.data() as TripData | undefined;
+    const guestEntry = tripData ? getTripGuests(tripData).find((guest) => guest.id === uid) ?? null : null;
+    if (!guestEntry && !contact.exists) return null;
+    return {
+      tripId,
+      status: tripData?.status ?? null,
+      origin: tripData?.origin ?? null,
+      destination: tripData?.destination ?? null,
+      departureStart: tripData?.departureStart ?? null,
+      departureEnd: tripData?.departureEnd ?? null,
+      guestEntry,
+      contact: contact.data() ?? null,
+    };
+  }));
+  return joined.filter((entry) => entry !== null);
+};
+
+// Chat messages live under schools/{schoolId}/tripChats/{tripId}/messages.
+const userChatMessages = async (schoolId: string, uid: string) => {
+  const messages = await admin.firestore().collectionGroup("messages").where("senderId", "==", uid).get();
+  return messages.docs.filter((doc) => doc.ref.path.startsWith(`schools/${schoolId}/tripChats/`));
+};
+
+// Returns everything stored against the caller's uid, including private contact values.
+export const exportMyData = onCall({ enforceAppCheck: true, timeoutSeconds: 120 }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "export your data");
+  await enforceRateLimit(schoolId, uid, "exportMyData");
+
+  const db = admin.firestore();
+  const school = db.collection("schools").doc(schoolId);
+  const [
+    user,
+    hostedTrips,
+    series,
+    requests,
+    messages,
+    reviewsWritten,
+    reviewsReceived,
+    reputation,
+    blocks,
+    reports,
+    routeAlerts,
+    notifications,
+  ] = await Promise.all([
+    admin.auth().getUser(uid),
+    school.collection("trips").where("hostId", "==", uid).get(),
+    school.collection("tripSeries").where("hostId", "==", uid).get(),
+    school.collection("pairRequests").where("requesterId", "==", uid).get(),
+    userChatMessages(schoolId, uid),
+    school.collection("tripReviews").where("reviewerId", "==", uid).get(),
+    school.collection("tripReviews").where("revieweeId", "==", uid).get(),
+    reputationRef(schoolId, uid).get(),
+    school.collection("blocks").where("blockerId", "==", uid).get(),
+    school.collection("moderationQueue").where("reporterId", "==", uid).get(),
+    routeSubscriptionsRef(schoolId).where("userId", "==", uid).get(),
+    exportNotificationData(uid),
+  ]);
+
+  return toExportValue({
+    exportedAt: new Date(),
+    account: {
+      uid,
+      email: user.email ?? null,
+      displayName: user.displayName ?? null,
+      createdAt: user.metadata.creationTime,
+      schoolId,
+    },
+    hostedTrips: await Promise.all(hostedTrips.docs.map((doc) => exportDoc(doc, uid))),
+    tripSeries: await Promise.all(series.docs.map((doc) => exportDoc(doc, uid))),
+    pairRequests: await Promise.all(requests.docs.map((doc) => exportDoc(doc, "contact"))),
+    joinedTrips: await exportJoinedTrips(schoolId, uid, requests),
+    chatMessages: messages.map((doc) => ({ tripId: doc.ref.parent.parent?.id, ...doc.data() })),
+    reviewsWritten: reviewsWritten.docs.map((doc) => doc.data()),
+    // Without reviewer ids, so the export doesn't reveal who rated whom.
+    reviewsReceived: reviewsReceived.docs.map((doc) => {
+      const { reviewerId, ...review } = doc.data();
+      return review;
+    }),
+    reputation: reputation.data() ?? null,
+    blockedUsers: blocks.docs.map((doc) => doc.get("blockedId")),
+    reports: reports.docs.map((doc) => ({ id: doc.id, ...doc.data() })),
+    routeAlerts: routeAlerts.docs.map((doc) => ({ id: doc.id, ...doc.data() })),
+    notifications,
+  });
+});
+
+// Replaces the user's entry in a trip's guest list with a placeholder and takes them out of the trip chat.
+async function anonymizeTripGuest(tripRef: admin.firestore.DocumentReference, uid: string): Promise<void> {
+  await admin.firestore().runTransaction(async (txn) => {
+    const tripSnap = await txn.get(tripRef);
+    const tripData = tripSnap.data() as TripData | undefined;
+    if (!tripData || !getTripGuests(tripData).some((guest) => guest.id === uid)) return;
+
+    const anonymize = (guest: TripGuest): TripGuest => {
+      if (guest.id !== uid) return guest;
+      const { reputation, guestContactValue, ...rest } = guest;
+      return { ...rest, nickname: DELETED_USER_NAME, guestContactHint: null, note: null };
+    };
+    txn.update(tripRef, {
+      ...(tripData.guests ? { guests: tripData.guests.map(anonymize) } : {}),
+      ...(tripData.guest ? { guest: anonymize(tripData.guest) } : {}),
+      deletedUserIds: admin.firestore.FieldValue.arrayUnion(uid),
+    });
+  });
+}
+
+// Cancels, withdraws and anonymizes everything linked to a user. Safe to re-run: each step only picks up
+// what is still active or still identifies the user. Co-riders hear about cancelled trips and departures
+// through the usual pair request notifications.
+async function deleteUserData(uid: string, schoolId: string | null): Promise<Record<string, number>> {
+  const db = admin.firestore();
+  const summary = {
+    tripsCancelled: 0,
+    requestsWithdrawn: 0,
+    tripsLeft: 0,
+    guestEntriesAnonymized: 0,
+    messagesAnonymized: 0,
+    failures: 0,
+  };
+  const attempt = async (step: () => Promise<unknown>, counter: keyof typeof summary) => {
+    try {
+      await step();
+      summary[counter] += 1;
+    } catch (err) {
+      summary.failures += 1;
+      console.error(`Account deletion step failed for ${uid}`, err);
+    }
+  };
+
+  if (schoolId) {
+    const school = db.collection("schools").doc(schoolId);
+    const [series, hostedTrips, requests] = await Promise.all([
+      school.collection("tripSeries").where("hostId", "==", uid).get(),
+      school.collection("trips").where("hostId", "==", uid).get(),
+      school.collection("pairRequests").where("requesterId", "==", uid).get(),
+    ]);
+
+    // Stop series first so no new trips are generated while the rest is cleaned up.
+    await commitInChunks(series.docs.map((doc) => (batch) => batch.update(doc.ref, {
+      status: "cancelled",
+      "template.hostNickname": DELETED_USER_NAME,
+      "template.note": null,
+      "template.hostContactHint": null,
+    })));
+
+    for (const doc of hostedTrips.docs) {
+      const status = doc.get("status") as TripStatus;
+      if (status === "open" || status === "paired") {
+        const reason = "The host closed their account.";
+        await attempt(() => cancelTripAs(schoolId, doc.id, reason, { hostId: uid }), "tripsCancelled");
+      }
+    }
+    for (const doc of requests.docs) {
+      const status = doc.get("status") as PairRequestStatus;
+      if (status === "pending") {
+        await attempt(() => updatePairRequestStatus(schoolId, doc.id, uid, "withdrawn"), "requestsWithdrawn");
+      } else if (status === "accepted") {
+        // Finished or cancelled trips keep their guest list as history.
+        const tripStatus = (await school.collection("trips").doc(doc.get("tripId")).get()).get("status") as TripStatus;
+        if (tripStatus === "open" || tripStatus === "paired") {
+          await attempt(() => removeTripGuest(schoolId, doc.get("tripId") as string, uid, undefined), "tripsLeft");
+        }
+      }
+    }
+
+    // Trips the user rode in keep their guest list as history, under the placeholder name.
+    const guestTripIds = [...new Set(requests.docs.map((doc) => doc.get("tripId") as string))];
+    for (const tripId of guestTripIds) {
+      await attempt(() => anonymizeTripGuest(school.collection("trips").doc(tripId), uid), "guestEntriesAnonymized");
+    }
+
+    const chatRefs = [...new Set([...hostedTrips.docs.map((doc) => doc.id), ...guestTripIds])]
+      .map((tripId) => tripChatRef(schoolId, tripId));
+    const chats = chatRefs.length > 0 ? await db.getAll(...chatRefs) : [];
+
+    const [messages, routeAlerts, blocksMade, blocksReceived, reviewsReceived, reviewsWritten, seriesContacts] =
+      await Promise.all([
+        userChatMessages(schoolId, uid),
+        routeSubscriptionsRef(schoolId).where("userId", "==", uid).get(),
+        school.collection("blocks").where("blockerId", "==", uid).get(),
+        school.collection("blocks").where("blockedId", "==", uid).get(),
+        school.collection("tripReviews").where("revieweeId", "==", uid).get(),
+        school.collection("tripReviews").where("reviewerId", "==", uid).get(),
+        Promise.all(series.docs.map((doc) => privateContactRef(doc.ref, uid).get())),
+      ]);
+    summary.messagesAnonymized = messages.length;
+
+    await commitInChunks([
+      ...hostedTrips.docs.flatMap((doc) => [
+        (batch: admin.firestore.WriteBatch) => batch.update(doc.ref, {
+          hostNickname: DELETED_USER_NAME,
+          hostContactHint: null,
+          note: null,
+          deletedUserIds: admin.firestore.FieldValue.arrayUnion(uid),
+        }),
+        (batch: admin.firestore.WriteBatch) => batch.delete(privateContactRef(doc.ref, uid)),
+      ]),
+      ...requests.docs.flatMap((doc) => [
+        (batch: admin.firestore.WriteBatch) => batch.update(doc.ref, {
+          requesterName: DELETED_USER_NAME,
+          requesterContactHint: null,
+          note: null,
+        }),
+        (batch: admin.firestore.WriteBatch) => batch.delete(privateContactRef(doc.ref, "contact")),
+        (batch: admin.firestore.WriteBatch) =>
+          batch.delete(privateContactRef(school.collection("trips").doc(doc.get("tripId") as string), uid)),
+      ]),
+      ...messages.map((doc) => (batch: admin.firestore.WriteBatch) => batch.update(doc.ref, {
+        senderId: null,
+        senderNickname: DELETED_USER_NAME,
+      })),
+      ...chats.filter((chat) => chat.exists).map((chat) => (batch: admin.firestore.WriteBatch) => batch.update(chat.ref, {
+        ...(chat.get("hostId") === uid ? { hostId: null } : {}),
+        participantIds: admin.firestore.FieldValue.arrayRemove(uid),
+        [`unread.${uid}`]: admin.firestore.FieldValue.delete(),
+      })),
+      ...seriesContacts.map((contact) => (batch: admin.firestore.WriteBatch) => batch.delete(contact.ref)),
+      ...[...routeAlerts.docs, ...blocksMade.docs, ...blocksReceived.docs, ...reviewsReceived.docs]
+        .map((doc) => (batch: admin.firestore.WriteBatch) => batch.delete(doc.ref)),
+      ...reviewsWritten.docs.map((doc) => (batch: admin.firestore.WriteBatch) => batch.update(doc.ref, {
+        reviewerId: null,
+        comment: null,
+      })),
+      (batch: admin.firestore.WriteBatch) => batch.delete(reputationRef(schoolId, uid)),
+    ]);
+  }
+
+  const feeds = await calendarFeedsRef().where("userId", "==", uid).get();
+  await Promise.all([deleteNotificationData(uid), ...feeds.docs.map((doc) => doc.ref.delete())]);
+
+  return summary;
+}
+
+const accountDeletionRef = (uid: string) => admin.firestore().doc(`accountDeletions/${uid}`);
+
+// Accepts { confirm: true }. Requires a sign-in within the last few minutes.
+export const deleteMyAccount = onCall({ enforceAppCheck: true, timeoutSeconds: 300 }, async (request) => {
+  const { uid, schoolId } = await requireSchoolCaller(request, "delete your account");
+
+  if ((request.data ?? {}).confirm !== true) {
+    throw new HttpsError("invalid-argument", "Pass confirm: true to delete your account.");
+  }
+  const authTime = request.auth?.token?.auth_time ?? 0;
+  if (Date.now() / 1000 - authTime > MAX_DELETE_AUTH_AGE_SECONDS) {
+    throw new HttpsError("failed-precondition", "Please sign in again before deleting your account.");
+  }
+
+  const summary = await deleteUserData(uid, schoolId);
+  if (summary.failures > 0) {
+    throw new HttpsError("internal", "We couldn't remove all of your data. Please try again.");
+  }
+
+  // Tells onAuthUserDeleted that the cleanup already ran.
+  await accountDeletionRef(uid).set({ completedAt: admin.firestore.FieldValue.serverTimestamp(), summary });
+  await admin.auth().deleteUser(uid);
+  return { ok: true, ...summary };
+});
+
+// Covers Auth deletions that don't go through deleteMyAccount, e.g. from the console.
+export const onAuthUserDeleted = functionsV1.auth.user().onDelete(async (user) => {
+  if ((await accountDeletionRef(user.uid).get()).exists) return;
+
+  const claimedSchoolId = user.customClaims?.schoolId;
+  const schoolId = typeof claimedSchoolId === "string" && claimedSchoolId
+    ? claimedSchoolId
+    : getSchoolId(user.email, await getSchoolConfig());
+  const summary = await deleteUserData(user.uid, schoolId);
+  console.log(`Removed data for deleted user ${user.uid}`, summary);
+  if (summary.failures > 0) {
+    throw new Error(`Account cleanup for ${user.uid} had ${summary.failures} failures.`);
+  }
+
+  await accountDeletionRef(user.uid).set({ completedAt: admin.firestore.FieldValue.serverTimestamp(), summary });
+});
+
+const CLEANUP_PAGE_SIZE = 200;
+const OPEN_TRIP_RETENTION_DAYS = 1;
+const TRIP_RETENTION_DAYS = 3;
+const MAIL_RETENTION_DAYS = 7;
+
+type CleanupSummary = {
+  dryRun: boolean
+  trips: number
+  pairRequests: number
+  contacts: number
+  chatMessages: number
+  routeAlerts: number
+  mail: number
+  // Paths or stages that failed; the next run picks them up again.
+  failures: string[]
+}
+
+// Walks every document the query matches a page at a time, deleting each page (and any `related` documents)
+// before reading the next. In dry-run mode nothing is deleted. Returns how many documents matched.
+async function deleteMatching(
+  query: admin.firestore.Query,
+  dryRun: boolean,
+  options: {
+    filter?: (doc: admin.firestore.QueryDocumentSnapshot) => boolean
+    related?: (doc: admin.firestore.QueryDocumentSnapshot) => admin.firestore.DocumentReference[]
+  } = {},
+): Promise<number> {
+  let matched = 0;
+  let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+  for (;;) {
+    let page = query.limit(CLEANUP_PAGE_SIZE);
+    if (lastDoc) {
+      page = page.startAfter(lastDoc);
+    }
+    const snapshot = await page.get();
+    const docs = options.filter ? snapshot.docs.filter(options.filter) : snapshot.docs;
+    if (!dryRun) {
+      const refs = docs.flatMap((doc) => [...(options.related?.(doc) ?? []), doc.ref]);
+      await commitInChunks(refs.map((ref) => (batch) => batch.delete(ref)));
+    }
+    matched += docs.length;
+    if (snapshot.size < CLEANUP_PAGE_SIZE) return matched;
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+}
+
+const mailSweepRef = () => admin.firestore().doc("config/mailCleanup");
+
+// Mail written before documents carried `created` can't be found by the query on it. Until one pass over the
+// whole collection has finished, each run continues from the stored cursor: expired documents are deleted and
+// the rest are stamped with their createTime. Returns how many were (or, in a dry run, would be) deleted.
+async function sweepUnstampedMail(cutoff: Date, dryRun: boolean): Promise<number> {
+  const sweep = await mailSweepRef().get();
+  if (sweep.get("completedAt")) return 0;
+
+  const mail = admin.firestore().collection("mail");
+  let deleted = 0;
+  let lastId = sweep.get("lastId") as string | undefined;
+  for (;;) {
+    let query = mail.orderBy(admin.firestore.FieldPath.documentId()).limit(CLEANUP_PAGE_SIZE);
+    if (lastId) {
+      query = query.startAfter(lastId);
+    }
+    const page = await query.get();
+    const unstamped = page.docs.filter((doc) => doc.get("created") === undefined);
+    const expired = unstamped.filter((doc) => doc.createTime.toDate() < cutoff);
+    deleted += expired.length;
+    if (page.empty) {
+      if (!dryRun) {
+        await mailSweepRef().set({ completedAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
+      }
+      return deleted;
+    }
+
+    lastId = page.docs[page.docs.length - 1].id;
+    if (!dryRun) {
+      await commitInChunks([
+        ...unstamped.map((doc) => (batch: admin.firestore.WriteBatch) => expired.includes(doc)
+          ? batch.delete(doc.ref)
+          : batch.update(doc.ref, { created: doc.createTime })),
+        (batch: admin.firestore.WriteBatch) => batch.set(mailSweepRef(), { lastId }, { merge: true }),
+      ]);
+    }
+  }
+}
+
+// The trip document goes last, so a run that stops part-way finds the trip again next time and finishes it.
+async function deleteStaleTrip(
+  tripDoc: admin.firestore.QueryDocumentSnapshot,
+  dryRun: boolean,
+  summary: CleanupSummary,
+): Promise<void> {
+  const schoolRef = tripDoc.ref.parent.parent;
+  if (!schoolRef) return;
+  const chatRef = tripChatRef(schoolRef.id, tripDoc.id);
+
+  summary.pairRequests += await deleteMatching(
+    schoolRef.collection("pairRequests").where("tripId", "==", tripDoc.id),
+    dryRun,
+    { related: (doc) => [privateContactRef(doc.ref, "contact")] },
+  );
+  summary.contacts += await deleteMatching(tripDoc.ref.collection("private"), dryRun);
+  summary.chatMessages += await deleteMatching(chatRef.collection("messages"), dryRun);
+  if (!dryRun) {
+    await commitInChunks([(batch) => batch.delete(chatRef), (batch) => batch.delete(tripDoc.ref)]);
+  }
+  summary.trips += 1;
+}
+
+async function runStaleDataCleanup(dryRun: boolean): Promise<CleanupSummary> {
+  const db = admin.firestore();
+  const now = Date.now();
+  const day = 24 * 60 * 60 * 1000;
+  const cutoffOpenTrip = new Date(now - OPEN_TRIP_RETENTION_DAYS * day);
+  const cutoffAllTrip = new Date(now - TRIP_RETENTION_DAYS * day);
+  const cutoffMail = new Date(now - MAIL_RETENTION_DAYS * day);
+  const summary: CleanupSummary = {
+    dryRun,
+    trips: 0,
+    pairRequests: 0,
+    contacts: 0,
+    chatMessages: 0,
+    routeAlerts: 0,
+    mail: 0,
+    failures: [],
+  };
+
+  // Open trips without guests are removed a day after their window ends; every other trip after three days.
+  // One failing trip is recorded and skipped so the rest still get cleaned up.
+  try {
+    let lastTrip: admin.firestore.QueryDocumentSnapshot | undefined;
+    for (;;) {
+      let query = db
+        .collectionGroup("trips")
+        .where("departureEnd", "<", cutoffOpenTrip)
+        .orderBy("departureEnd")
+        .limit(CLEANUP_PAGE_SIZE);
+      if (lastTrip) {
+        query = query.startAfter(lastTrip);
+      }
+      const tripsSnap = await query.get();
+      for (const tripDoc of tripsSnap.docs) {
+        const tripData = tripDoc.data() as TripData;
+        // Multi-seat trips stay open with confirmed guests until full; those keep the longer retention.
+        const unpaired = tripData.status === "open" && getTripGuests(tripData).length === 0;
+        if (!unpaired && tripData.departureEnd.toMillis() >= cutoffAllTrip.getTime()) continue;
+        try {
+          await deleteStaleTrip(tripDoc, dryRun, summary);
+        } catch (err) {
+          console.error(`Cleanup failed for ${tripDoc.ref.path}`, err);
+          summary.failures.push(tripDoc.ref.path);
+        }
+      }
+      if (tripsSnap.size < CLEANUP_PAGE_SIZE) break;
+      lastTrip = tripsSnap.docs[tripsSnap.docs.length - 1];
+    }
+  } catch (err) {
+    console.error("Trip cleanup failed", err);
+    summary.failures.push("trips");
+  }
+
+  // Backs up the TTL policy on expiresAt.
+  try {
+    summary.routeAlerts = await deleteMatching(
+      db.collectionGroup("routeSubscriptions").where("expiresAt", "<", new Date(now)),
+      dryRun,
+    );
+  } catch (err) {
+    console.error("Route alert cleanup failed", err);
+    summary.failures.push("routeSubscriptions");
+  }
+
+  try {
+    summary.mail = await sweepUnstampedMail(cutoffMail, dryRun);
+    summary.mail += await deleteMatching(db.collection("mail").where("created", "<", cutoffMail), dryRun);
+  } catch (err) {
+    console.error("Mail cleanup failed", err);
+    summary.failures.push("mail");
+  }
+
+  const { failures, ...counts } = summary;
+  console.log(`Stale data cleanup${dryRun ? " (dry run)" : ""}`, counts, failures.length ? { failures } : {});
+  return summary;
+}
+
+// Scheduled cleanup: daily. Removes open trips without guests 1+ day past departureEnd, all other trips after
+// 3+ days, expired route alerts and mail older than a week.
+export const cleanupStaleData = onSchedule({
+  schedule: "0 8 * * *",
+  timeZone: DEFAULT_TIMEZONE,
+  timeoutSeconds: 540,
+  retryCount: 3,
+}, async () => {
+  const summary = await runStaleDataCleanup(false);
+  // Everything already deleted stays deleted, so a retry only has the leftovers to do.
+  if (summary.failures.length > 0) {
+    throw new Error(`Stale data cleanup left ${summary.failures.length} items for a retry`);
+  }
+});
+
+// Runs the same cleanup on demand. Defaults to a dry run that only reports what would be deleted;
+// pass { dryRun: false } to delete for real.
+export const runCleanupStaleData = onCall({ enforceAppCheck: true, timeoutSeconds: 540 }, async (request) => {
+  const actor = await requireAdmin(request, "admin");
+  const dryRun = (request.data as { dryRun?: unknown } | undefined)?.dryRun !== false;
+
+  const summary = await runStaleDataCleanup(dryRun);
+  await writeAuditLog(actor, "runCleanupStaleData", {}, summary);
+  return summary;
 });
@@ -0,0 +1,356 @@
+import * as admin from "firebase-admin";
+import { createHash } from "crypto";
+import { HttpsError } from "firebase-functions/v2/https";
+import { EmailMessage, notificationDigestEmail } from "./emailTemplates.js";
+
+// Every user-facing notification goes through dispatchNotification, which applies the recipient's
+// preferences and then delivers by email (the `mail` collection), FCM push, or both.
+
+export type NotificationEvent =
+  | "pairRequestReceived"
+  | "requestAccepted"
+  | "requestDeclined"
+  | "requestWithdrawn"
+  | "tripCancelled"
+  | "tripUpdated"
+  | "pairingEnded"
+  | "routeAlert"
+  | "departureReminder"
+  | "chatMessage";
+
+export type DeliveryCadence = "instant" | "hourly" | "daily";
+
+export type DeliveryChannels = "email" | "push" | "both";
+
+export type NotificationPreferences = {
+  events: Partial<Record<NotificationEvent, DeliveryCadence>>
+  channels: Partial<Record<NotificationEvent, DeliveryChannels>>
+  muteDeclines: boolean
+}
+
+export type PushMessage = {
+  title: string
+  body: string
+  link?: string
+}
+
+export type Notification = {
+  userId: string
+  event: NotificationEvent
+  message: EmailMessage
+  // Defaults to the email subject and first paragraph.
+  push?: PushMessage
+}
+
+// Sends one push to a user's devices and reports which tokens the push service rejected.
+export interface PushSender {
+  send(tokens: string[], push: PushMessage): Promise<{ invalidTokens: string[] }>
+}
+
+// A write the caller commits itself, e.g. inside a transaction alongside an idempotency marker.
+export type PreparedWrite = {
+  ref: admin.firestore.DocumentReference
+  data: Record<string, unknown>
+}
+
+// Time-critical events ignore digest preferences and always go out immediately.
+const DIGESTIBLE_EVENTS: NotificationEvent[] = [
+  "pairRequestReceived",
+  "requestDeclined",
+  "requestWithdrawn",
+  "tripUpdated",
+  "routeAlert",
+];
+const DELIVERY_CADENCES: DeliveryCadence[] = ["instant", "hourly", "daily"];
+const DELIVERY_CHANNELS: DeliveryChannels[] = ["email", "push", "both"];
+const NOTIFICATION_EVENTS: NotificationEvent[] = [
+  "pairRequestReceived",
+  "requestAccepted",
+  "requestDeclined",
+  "requestWithdrawn",
+  "tripCancelled",
+  "tripUpdated",
+  "pairingEnded",
+  "routeAlert",
+  "departureReminder",
+  "chatMessage",
+];
+// Channels used until the user picks their own.
+const DEFAULT_CHANNELS: Partial<Record<NotificationEvent, DeliveryChannels>> = {
+  pairRequestReceived: "both",
+  requestAccepted: "both",
+  requestDeclined: "both",
+  departureReminder: "both",
+};
+const MAX_DIGEST_ITEMS_PER_BATCH = 400;
+const MAX_DEVICE_TOKENS = 10;
+// FCM error codes meaning the token will never work again.
+const INVALID_TOKEN_CODES = [
+  "messaging/registration-token-not-registered",
+  "messaging/invalid-registration-token",
+];
+
+const preferencesRef = (userId: string) => admin.firestore().doc(`notificationPreferences/${userId}`);
+
+const deviceTokensRef = (userId: string) => admin.firestore().collection("users").doc(userId).collection("deviceTokens");
+
+// Tokens are long and opaque; hashing gives a stable document id per device.
+const deviceTokenId = (token: string): string => createHash("sha256").update(token).digest("hex");
+
+export const createFcmPushSender = (): PushSender => ({
+  async send(tokens, push) {
+    const response = await admin.messaging().sendEachForMulticast({
+      tokens,
+      notification: { title: push.title, body: push.body },
+      data: push.link ? { link: push.link } : {},
+      webpush: push.link ? { fcmOptions: { link: push.link } } : undefined,
+    });
+    const invalidTokens = response.responses
+      .map((result, index) => (!result.success && INVALID_TOKEN_CODES.includes(result.error?.code ?? "") ? tokens[index] : null))
+      .filter((token): token is string => token !== null);
+    return { invalidTokens };
+  },
+});
+
+let pushSender: PushSender | null = null;
+
+export function setPushSender(next: PushSender | null): void {
+  pushSender = next;
+}
+
+function getPushSender(): PushSender {
+  if (!pushSender) {
+    pushSender = createFcmPushSender();
+  }
+  return pushSender;
+}
+
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const snapshot = await preferencesRef(userId).get();
+  const data = snapshot.data() as Partial<NotificationPreferences> | undefined;
+  return { events: data?.events ?? {}, channels: data?.channels ?? {}, muteDeclines: data?.muteDeclines === true };
+}
+
+export async function registerDeviceToken(userId: string, token: unknown, platform: unknown): Promise<void> {
+  if (typeof token !== "string" || !token.trim() || token.length > 4096) {
+    throw new HttpsError("invalid-argument", "A device token is required.");
+  }
+  if (platform !== undefined && !["web", "ios", "android"].includes(platform as string)) {
+    throw new HttpsError("invalid-argument", "platform must be web, ios or android.");
+  }
+
+  const tokens = deviceTokensRef(userId);
+  await tokens.doc(deviceTokenId(token.trim())).set({
+    token: token.trim(),
+    platform: platform ?? null,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  // Keep only the most recently registered devices.
+  const existing = await tokens.orderBy("updatedAt", "desc").get();
+  const stale = existing.docs.slice(MAX_DEVICE_TOKENS);
+  await Promise.all(stale.map((doc) => doc.ref.delete()));
+}
+
+export async function unregisterDeviceToken(userId: string, token: unknown): Promise<void> {
+  if (typeof token !== "string" || !token.trim()) {
+    throw new HttpsError("invalid-argument", "A device token is required.");
+  }
+  await deviceTokensRef(userId).doc(deviceTokenId(token.trim())).delete();
+}
+
+// Validates a partial update from the client and merges it into the stored preferences.
+export async function updateNotificationPreferences(userId: string, input: unknown): Promise<NotificationPreferences> {
+  if (!input || typeof input !== "object") {
+    throw new HttpsError("invalid-argument", "Preferences are required.");
+  }
+  const { events, channels, muteDeclines } = input as { events?: unknown; channels?: unknown; muteDeclines?: unknown };
+
+  const update: Record<string, unknown> = {};
+  if (events !== undefined) {
+    if (!events || typeof events !== "object") {
+      throw new HttpsError("invalid-argument", "events must be an object.");
+    }
+    for (const [event, cadence] of Object.entries(events)) {
+      if (!DIGESTIBLE_EVENTS.includes(event as NotificationEvent)) {
+        throw new HttpsError("invalid-argument", `Delivery can't be changed for "${event}".`);
+      }
+      if (!DELIVERY_CADENCES.includes(cadence as DeliveryCadence)) {
+        throw new HttpsError("invalid-argument", `Delivery must be one of: ${DELIVERY_CADENCES.join(", ")}.`);
+      }
+      update[`events.${event}`] = cadence;
+    }
+  }
+  if (channels !== undefined) {
+    if (!channels || typeof channels !== "object") {
+      throw new HttpsError("invalid-argument", "channels must be an object.");
+    }
+    for (const [event, channel] of Object.entries(channels)) {
+      if (!NOTIFICATION_EVENTS.includes(event as NotificationEvent)) {
+        throw new HttpsError("invalid-argument", `Unknown notification event "${event}".`);
+      }
+      if (!DELIVERY_CHANNELS.includes(channel as DeliveryChannels)) {
+        throw new HttpsError("invalid-argument", `Channel must be one of: ${DELIVERY_CHANNELS.join(", ")}.`);
+      }
+      update[`channels.${event}`] = channel;
+    }
+  }
+  if (muteDeclines !== undefined) {
+    if (typeof muteDeclines !== "boolean") {
+      throw new HttpsError("invalid-argument", "muteDeclines must be a boolean.");
+    }
+    update.muteDeclines = muteDeclines;
+  }
+
+  if (Object.keys(update).length > 0) {
+    const ref = preferencesRef(userId);
+    // update() understands the dotted event paths; create the document first if needed.
+    await ref.set({ updatedAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
+    await ref.update(update);
+  }
+  return getNotificationPreferences(userId);
+}
+
+const getCadence = (preferences: NotificationPreferences, event: NotificationEvent): DeliveryCadence | "muted" => {
+  if (event === "requestDeclined" && preferences.muteDeclines) return "muted";
+  if (!DIGESTIBLE_EVENTS.includes(event)) return "instant";
+  return preferences.events[event] ?? "instant";
+};
+
+const getChannels = (preferences: NotificationPreferences, event: NotificationEvent): DeliveryChannels =>
+  preferences.channels[event] ?? DEFAULT_CHANNELS[event] ?? "email";
+
+const usesEmail = (channels: DeliveryChannels): boolean => channels !== "push";
+
+const usesPush = (channels: DeliveryChannels): boolean => channels !== "email";
+
+const toPushMessage = (message: EmailMessage): PushMessage => {
+  const body = message.text.split("\n\n")[0] ?? "";
+  return { title: message.subject, body: body.length > 180 ? `${body.slice(0, 177)}...` : body };
+};
+
+// Resolves the recipient and their preferences into the email or digest documents to write,
+// without writing them. Push delivery is separate (sendPushNotification) since it can't join a transaction.
+export async function prepareNotification(notification: Notification): Promise<PreparedWrite[]> {
+  const db = admin.firestore();
+  const preferences = await getNotificationPreferences(notification.userId);
+  const cadence = getCadence(preferences, notification.event);
+  if (cadence === "muted" || !usesEmail(getChannels(preferences, notification.event))) return [];
+
+  const user = await admin.auth().getUser(notification.userId).catch(() => null);
+  if (!user?.email) return [];
+
+  if (cadence === "instant") {
+    return [{
+      ref: db.collection("mail").doc(),
+      // cleanupStaleData pages through old mail by `created`.
+      data: { to: user.email, message: notification.message, created: admin.firestore.FieldValue.serverTimestamp() },
+    }];
+  }
+  return [{
+    ref: db.collection("notificationQueue").doc(),
+    data: {
+      userId: notification.userId,
+      event: notification.event,
+      cadence,
+      message: notification.message,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+  }];
+}
+
+// Pushes go out immediately even when the email for the same event is held for a digest.
+export async function sendPushNotification(notification: Notification): Promise<void> {
+  const preferences = await getNotificationPreferences(notification.userId);
+  if (getCadence(preferences, notification.event) === "muted" || !usesPush(getChannels(preferences, notification.event))) {
+    return;
+  }
+
+  const tokenSnapshot = await deviceTokensRef(notification.userId).get();
+  const tokens = tokenSnapshot.docs.map((doc) => doc.get("token") as string);
+  if (tokens.length === 0) return;
+
+  const { invalidTokens } = await getPushSender().send(tokens, notification.push ?? toPushMessage(notification.message));
+  if (invalidTokens.length > 0) {
+    await Promise.all(invalidTokens.map((token) => deviceTokensRef(notification.userId).doc(deviceTokenId(token)).delete()));
+    console.log(`Removed ${invalidTokens.length} invalid device tokens for ${notification.userId}`);
+  }
+}
+
+export async function dispatchNotification(notification: Notification): Promise<void> {
+  const writes = await prepareNotification(notification);
+  await Promise.all(writes.map((write) => write.ref.set(write.data)));
+  try {
+    await sendPushNotification(notification);
+  } catch (err) {
+    console.warn("Push delivery failed", err);
+  }
+}
+
+// Combines queued notifications into one email per user. Users are taken one at a time, oldest queued item
+// first, and all of their items go into a single digest. The digest mail commits in the same batch as the
+// removal of its (first MAX_DIGEST_ITEMS_PER_BATCH) queue entries, so a retried run never resends them.
+export async function sendNotificationDigests(cadence: "hourly" | "daily", appUrl: string): Promise<number> {
+  const db = admin.firestore();
+  const queue = db.collection("notificationQueue").where("cadence", "==", cadence);
+  let sent = 0;
+
+  for (;;) {
+    const oldest = await queue.orderBy("createdAt").limit(1).get();
+    if (oldest.empty) break;
+    const userId = oldest.docs[0].get("userId") as string | undefined;
+    if (!userId) {
+      await oldest.docs[0].ref.delete();
+      continue;
+    }
+
+    const items = await queue.where("userId", "==", userId).orderBy("createdAt").get();
+    const user = await admin.auth().getUser(userId).catch(() => null);
+    for (let i = 0; i < items.size; i += MAX_DIGEST_ITEMS_PER_BATCH) {
+      const batch = db.batch();
+      if (i === 0 && user?.email) {
+        const message = notificationDigestEmail({
+          period: cadence,
+          items: items.docs.map((doc) => doc.get("message") as EmailMessage),
+          appUrl,
+        });
+        batch.set(db.collection("mail").doc(), {
+          to: user.email,
+          message,
+          created: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        sent += 1;
+      }
+      items.docs.slice(i, i + MAX_DIGEST_ITEMS_PER_BATCH).forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+    }
+  }
+
+  return sent;
+}
+
+// Everything this module stores about a user, for data export. Device tokens are reported without the token itself.
+export async function exportNotificationData(userId: string): Promise<Record<string, unknown>> {
+  const [preferences, tokens, queued] = await Promise.all([
+    preferencesRef(userId).get(),
+    deviceTokensRef(userId).get(),
+    admin.firestore().collection("notificationQueue").where("userId", "==", userId).get(),
+  ]);
+  return {
+    preferences: preferences.data() ?? null,
+    devices: tokens.docs.map((doc) => ({ platform: doc.get("platform") ?? null, updatedAt: doc.get("updatedAt") ?? null })),
+    pendingDigestItems: queued.docs.map((doc) => ({ event: doc.get("event"), createdAt: doc.get("createdAt") ?? null })),
+  };
+}
+
+export async function deleteNotificationData(userId: string): Promise<void> {
+  const [tokens, queued] = await Promise.all([
+    deviceTokensRef(userId).get(),
+    admin.firestore().collection("notificationQueue").where("userId", "==", userId).get(),
+  ]);
+  await Promise.all([
+    preferencesRef(userId).delete(),
+    ...tokens.docs.map((doc) => doc.ref.delete()),
+    ...queued.docs.map((doc) => doc.ref.delete()),
+  ]);
+}
@@ -0,0 +1,100 @@
+import * as admin from "firebase-admin";
+import { HttpsError } from "firebase-functions/v2/https";
+
+export type RateLimit = {
+  // Requests allowed in a burst, refilled evenly across the window.
+  limit: number
+  windowSeconds: number
+}
+
+type BucketState = {
+  tokens: number
+  refilledAt: admin.firestore.Timestamp
+}
+
+// Used for any action a school has not configured in schools/{schoolId}/settings/rateLimits.
+const DEFAULT_RATE_LIMITS: Record<string, RateLimit> = {
+  createPairRequest: { limit: 10, windowSeconds: 60 * 60 },
+  createTrip: { limit: 10, windowSeconds: 24 * 60 * 60 },
+  // Each series posts a trip per occurrence, so it has its own, tighter bucket.
+  createTripSeries: { limit: 3, windowSeconds: 24 * 60 * 60 },
+  sendTripMessage: { limit: 60, windowSeconds: 10 * 60 },
+  exportMyData: { limit: 3, windowSeconds: 24 * 60 * 60 },
+};
+const FALLBACK_RATE_LIMIT: RateLimit = { limit: 30, windowSeconds: 60 * 60 };
+const CACHE_TTL_MS = 60_000;
+
+const cachedLimits = new Map<string, { limits: Record<string, RateLimit>; fetchedAt: number }>();
+
+const isRateLimit = (value: unknown): value is RateLimit =>
+  !!value &&
+  typeof value === "object" &&
+  Number.isInteger((value as RateLimit).limit) &&
+  (value as RateLimit).limit > 0 &&
+  typeof (value as RateLimit).windowSeconds === "number" &&
+  (value as RateLimit).windowSeconds > 0;
+
+async function getRateLimit(schoolId: string, action: string): Promise<RateLimit> {
+  const now = Date.now();
+  let entry = cachedLimits.get(schoolId);
+  if (!entry || now - entry.fetchedAt >= CACHE_TTL_MS) {
+    const snapshot = await admin.firestore().doc(`schools/${schoolId}/settings/rateLimits`).get();
+    const limits: Record<string, RateLimit> = {};
+    Object.entries(snapshot.data() ?? {}).forEach(([key, value]) => {
+      if (isRateLimit(value)) {
+        limits[key] = { limit: value.limit, windowSeconds: value.windowSeconds };
+      }
+    });
+    entry = { limits, fetchedAt: now };
+    cachedLimits.set(schoolId, entry);
+  }
+  return entry.limits[action] ?? DEFAULT_RATE_LIMITS[action] ?? FALLBACK_RATE_LIMIT;
+}
+
+// Token bucket per school, user and action. Throws resource-exhausted with a retryAfterSeconds hint
+// in the error details when the bucket is empty.
+export async function enforceRateLimit(schoolId: string, uid: string, action: string): Promise<void> {
+  const { limit, windowSeconds } = await getRateLimit(schoolId, action);
+  const refillPerMs = limit / (windowSeconds * 1000);
+  const db = admin.firestore();
+  const bucketRef = db.doc(`schools/${schoolId}/rateLimits/${uid}_${action}`);
+
+  const retryAfterMs = await db.runTransaction(async (txn) => {
+    const snapshot = await txn.get(bucketRef);
+    const state = snapshot.data() as BucketState | undefined;
+    const now = Date.now();
+    const elapsedMs = state ? Math.max(0, now - state.refilledAt.toMillis()) : 0;
+    const tokens = state ? Math.min(limit, state.tokens + elapsedMs * refillPerMs) : limit;
+
+    if (tokens < 1) {
+      return Math.ceil((1 - tokens) / refillPerMs);
+    }
+
+    txn.set(bucketRef, {
+      uid,
+      action,
+      tokens: tokens - 1,
+      refilledAt: admin.firestore.Timestamp.fromMillis(now),
+      // Lets a TTL policy drop buckets once they would be full again.
+      expiresAt: admin.firestore.Timestamp.fromMillis(now + windowSeconds * 1000),
+    });
+    return 0;
+  });
+
+  if (retryAfterMs > 0) {
+    const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+    throw new HttpsError(
+      "resource-exhausted",
+      `You're doing that too often. Try again in ${formatRetryAfter(retryAfterSeconds)}.`,
+      { retryAfterSeconds },
+    );
+  }
+}
+
+const formatRetryAfter = (seconds: number): string => {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+};
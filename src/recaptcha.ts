@@ -0,0 +1,128 @@
+import * as admin from "firebase-admin";
+import { HttpsError } from "firebase-functions/v2/https";
+
+export type RecaptchaAction = "signup" | "createTrip" | "createTripSeries" | "createPairRequest" | "acceptPairRequest";
+
+export type RecaptchaAssessment = {
+  valid: boolean
+  score: number
+  action: string | null
+  errorCodes: string[]
+}
+
+// Anything that can score a client token. Production talks to Google; the emulator and tests use a local fake.
+export interface RecaptchaVerifier {
+  verify(token: string, expectedAction: RecaptchaAction): Promise<RecaptchaAssessment>
+}
+
+type SiteVerifyResponse = {
+  "success": boolean
+  "score"?: number
+  "action"?: string
+  "error-codes"?: string[]
+}
+
+const SITE_VERIFY_URL = "https://www.google.com/recaptcha/api/siteverify";
+const THRESHOLDS_DOC_PATH = "config/recaptcha";
+const DEFAULT_THRESHOLD = 0.5;
+const CACHE_TTL_MS = 60_000;
+
+export const createGoogleRecaptchaVerifier = (secret: string): RecaptchaVerifier => ({
+  async verify(token, expectedAction) {
+    const response = await fetch(SITE_VERIFY_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ secret, response: token }).toString(),
+    });
+    if (!response.ok) {
+      throw new Error(`reCAPTCHA siteverify returned ${response.status}`);
+    }
+
+    const body = await response.json() as SiteVerifyResponse;
+    const action = body.action ?? null;
+    return {
+      valid: body.success && action === expectedAction,
+      score: body.score ?? 0,
+      action,
+      errorCodes: body["error-codes"] ?? (action === expectedAction ? [] : ["action-mismatch"]),
+    };
+  },
+});
+
+// Tokens of the form "local:<score>" score as given; any other non-empty token scores 0.9.
+export const createLocalRecaptchaVerifier = (): RecaptchaVerifier => ({
+  async verify(token, expectedAction) {
+    const match = /^local:(\d(?:\.\d+)?)$/.exec(token);
+    return { valid: true, score: match ? Number(match[1]) : 0.9, action: expectedAction, errorCodes: [] };
+  },
+});
+
+let verifier: RecaptchaVerifier | null = null;
+
+export function setRecaptchaVerifier(next: RecaptchaVerifier | null): void {
+  verifier = next;
+}
+
+function getRecaptchaVerifier(): RecaptchaVerifier {
+  if (verifier) return verifier;
+
+  if (process.env.FUNCTIONS_EMULATOR === "true") {
+    verifier = createLocalRecaptchaVerifier();
+  } else {
+    const secret = process.env.RECAPTCHA_SECRET_KEY;
+    if (!secret) {
+      throw new HttpsError("internal", "reCAPTCHA is not configured.");
+    }
+    verifier = createGoogleRecaptchaVerifier(secret);
+  }
+  return verifier;
+}
+
+let cachedThresholds: Record<string, number> | null = null;
+let lastFetchMs = 0;
+
+// Per-action minimum scores from config/recaptcha, e.g. { default: 0.5, createPairRequest: 0.7 }.
+async function getRecaptchaThreshold(action: RecaptchaAction): Promise<number> {
+  const now = Date.now();
+  if (!cachedThresholds || now - lastFetchMs >= CACHE_TTL_MS) {
+    const snapshot = await admin.firestore().doc(THRESHOLDS_DOC_PATH).get();
+    const thresholds: Record<string, number> = {};
+    Object.entries(snapshot.data() ?? {}).forEach(([key, value]) => {
+      if (typeof value === "number" && value >= 0 && value <= 1) {
+        thresholds[key] = value;
+      }
+    });
+    cachedThresholds = thresholds;
+    lastFetchMs = now;
+  }
+  return cachedThresholds[action] ?? cachedThresholds.default ?? DEFAULT_THRESHOLD;
+}
+
+export async function assertRecaptchaScore(score: number, action: RecaptchaAction): Promise<void> {
+  const threshold = await getRecaptchaThreshold(action);
+  if (score < threshold) {
+    console.warn(`reCAPTCHA score ${score} below ${threshold} for ${action}`);
+    throw new HttpsError("permission-denied", "We couldn't verify this request. Please try again.");
+  }
+}
+
+export async function assertRecaptcha(token: unknown, action: RecaptchaAction): Promise<void> {
+  if (typeof token !== "string" || !token.trim()) {
+    throw new HttpsError("failed-precondition", "recaptchaToken is required.");
+  }
+
+  let assessment: RecaptchaAssessment;
+  try {
+    assessment = await getRecaptchaVerifier().verify(token.trim(), action);
+  } catch (err) {
+    if (err instanceof HttpsError) throw err;
+    console.error("reCAPTCHA verification failed", err);
+    throw new HttpsError("unavailable", "Verification is temporarily unavailable. Please try again.");
+  }
+
+  if (!assessment.valid) {
+    console.warn(`reCAPTCHA token rejected for ${action}`, assessment.errorCodes);
+    throw new HttpsError("permission-denied", "We couldn't verify this request. Please try again.");
+  }
+  await assertRecaptchaScore(assessment.score, action);
+}
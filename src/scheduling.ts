@@ -0,0 +1,232 @@
+import { HttpsError } from "firebase-functions/v2/https";
+
+export type SchedulingRules = {
+  // How soon before departure a trip may be posted or moved.
+  minLeadMinutes: number
+  maxWindowHours: number
+  // How far ahead of today a departure may be.
+  maxAdvanceDays: number
+  // Local dates ("YYYY-MM-DD" in the school's timezone) on which no departure window may fall.
+  blackoutDates: string[]
+}
+
+export type DepartureField = "departureStart" | "departureEnd";
+
+export type SchedulingRule = "required" | "order" | "past" | "minLead" | "maxWindow" | "maxAdvance" | "blackout";
+
+export type FieldError = {
+  field: DepartureField
+  rule: SchedulingRule
+  message: string
+}
+
+export const DEFAULT_SCHEDULING_RULES: SchedulingRules = {
+  minLeadMinutes: 30,
+  maxWindowHours: 12,
+  maxAdvanceDays: 90,
+  blackoutDates: [],
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// Upper bounds for school overrides, so a typo can't disable a rule entirely.
+const MAX_WINDOW_HOURS = 7 * 24;
+const MAX_ADVANCE_DAYS = 365;
+
+const isBoundedNumber = (value: unknown, max: number): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= max;
+
+// Reads the `scheduling` map of a school's settings document; missing or invalid fields keep their defaults.
+export function parseSchedulingRules(value: unknown): SchedulingRules {
+  const input = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  return {
+    minLeadMinutes: isBoundedNumber(input.minLeadMinutes, 7 * 24 * 60)
+      ? input.minLeadMinutes
+      : DEFAULT_SCHEDULING_RULES.minLeadMinutes,
+    maxWindowHours: isBoundedNumber(input.maxWindowHours, MAX_WINDOW_HOURS) && input.maxWindowHours > 0
+      ? input.maxWindowHours
+      : DEFAULT_SCHEDULING_RULES.maxWindowHours,
+    maxAdvanceDays: isBoundedNumber(input.maxAdvanceDays, MAX_ADVANCE_DAYS) && input.maxAdvanceDays > 0
+      ? input.maxAdvanceDays
+      : DEFAULT_SCHEDULING_RULES.maxAdvanceDays,
+    blackoutDates: Array.isArray(input.blackoutDates)
+      ? input.blackoutDates.filter((date): date is string => typeof date === "string" && DATE_PATTERN.test(date))
+      : [],
+  };
+}
+
+const parseDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  if (typeof value !== "string" || !value.trim()) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export const localDate = (date: Date, timezone: string): string =>
+  new Intl.DateTimeFormat("en-CA", { timeZone: timezone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+
+// Every local calendar date the window touches, sampled hourly (windows are capped at a week).
+const localDatesInWindow = (start: Date, end: Date, timezone: string): Set<string> => {
+  const dates = new Set<string>([localDate(end, timezone)]);
+  for (let ms = start.getTime(); ms < end.getTime(); ms += 60 * 60 * 1000) {
+    dates.add(localDate(new Date(ms), timezone));
+  }
+  return dates;
+};
+
+// Returns every rule the window breaks. `checkLeadTime` is off when an edit keeps the existing start.
+export function validateDepartureWindow(
+  startInput: unknown,
+  endInput: unknown,
+  rules: SchedulingRules,
+  timezone: string,
+  options: { checkLeadTime?: boolean; now?: number } = {},
+): { start: Date | null; end: Date | null; errors: FieldError[] } {
+  const now = options.now ?? Date.now();
+  const start = parseDate(startInput);
+  const end = parseDate(endInput);
+  const errors: FieldError[] = [];
+
+  if (!start) {
+    errors.push({ field: "departureStart", rule: "required", message: "departureStart must be a valid date and time." });
+  }
+  if (!end) {
+    errors.push({ field: "departureEnd", rule: "required", message: "departureEnd must be a valid date and time." });
+  }
+  if (!start || !end) {
+    return { start, end, errors };
+  }
+
+  if (end.getTime() <= start.getTime()) {
+    errors.push({ field: "departureEnd", rule: "order", message: "The departure window must end after it starts." });
+  } else if (end.getTime() - start.getTime() > rules.maxWindowHours * 60 * 60 * 1000) {
+    errors.push({
+      field: "departureEnd",
+      rule: "maxWindow",
+      message: `The departure window can be at most ${rules.maxWindowHours} hours long.`,
+    });
+  }
+
+  if (end.getTime() <= now) {
+    errors.push({ field: "departureEnd", rule: "past", message: "The departure window has already ended." });
+  } else if ((options.checkLeadTime ?? true) && start.getTime() < now + rules.minLeadMinutes * 60 * 1000) {
+    errors.push({
+      field: "departureStart",
+      rule: "minLead",
+      message: `Departures must be at least ${rules.minLeadMinutes} minutes from now.`,
+    });
+  }
+
+  if (start.getTime() > now + rules.maxAdvanceDays * 24 * 60 * 60 * 1000) {
+    errors.push({
+      field: "departureStart",
+      rule: "maxAdvance",
+      message: `Trips can be posted at most ${rules.maxAdvanceDays} days ahead.`,
+    });
+  }
+
+  const hasWindowError = errors.some((error) => error.rule === "order" || error.rule === "maxWindow");
+  if (!hasWindowError && rules.blackoutDates.length > 0) {
+    const blocked = [...localDatesInWindow(start, end, timezone)].filter((date) => rules.blackoutDates.includes(date));
+    if (blocked.length > 0) {
+      errors.push({
+        field: localDate(start, timezone) === blocked[0] ? "departureStart" : "departureEnd",
+        rule: "blackout",
+        message: `No trips can be scheduled on ${blocked.join(", ")}.`,
+      });
+    }
+  }
+
+  return { start, end, errors };
+}
+
+// Throws invalid-argument with every broken rule in `details.fieldErrors`.
+export function assertDepartureWindow(
+  startInput: unknown,
+  endInput: unknown,
+  rules: SchedulingRules,
+  timezone: string,
+  options: { checkLeadTime?: boolean } = {},
+): { start: Date; end: Date } {
+  const { start, end, errors } = validateDepartureWindow(startInput, endInput, rules, timezone, options);
+  if (errors.length > 0 || !start || !end) {
+    throw new HttpsError("invalid-argument", errors[0]?.message ?? "Invalid departure window.", { fieldErrors: errors });
+  }
+  return { start, end };
+}
+
+export type RecurrenceRule = {
+  frequency: "daily" | "weekly"
+  // Every `interval` days or weeks, counted from the series start date.
+  interval: number
+  // Weekly only: 0 = Sunday … 6 = Saturday. Defaults to the start date's weekday.
+  weekdays: number[]
+}
+
+const MAX_RECURRENCE_INTERVAL = 12;
+
+export const isLocalDate = (value: unknown): value is string =>
+  typeof value === "string" && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+
+export const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+
+const weekdayOf = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// Converts a wall-clock time on a local date in `timezone` to an instant. The second pass corrects
+// the offset when the first guess lands on the other side of a DST change.
+export function zonedDateTime(date: string, time: string, timezone: string): Date {
+  const wallClockMs = Date.parse(`${date}T${time}:00Z`);
+  const offsetAt = (ms: number): number => {
+    const parts = Object.fromEntries(new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    }).formatToParts(new Date(ms)).map((part) => [part.type, part.value]));
+    const asUtc = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+    return asUtc - Math.floor(ms / 1000) * 1000;
+  };
+  const firstGuess = wallClockMs - offsetAt(wallClockMs);
+  return new Date(wallClockMs - offsetAt(firstGuess));
+}
+
+export function parseRecurrenceRule(value: unknown, startDate: string): RecurrenceRule {
+  const input = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  if (input.frequency !== "daily" && input.frequency !== "weekly") {
+    throw new HttpsError("invalid-argument", "recurrence.frequency must be daily or weekly.");
+  }
+  const interval = input.interval ?? 1;
+  if (!Number.isInteger(interval) || (interval as number) < 1 || (interval as number) > MAX_RECURRENCE_INTERVAL) {
+    throw new HttpsError("invalid-argument", `recurrence.interval must be a whole number up to ${MAX_RECURRENCE_INTERVAL}.`);
+  }
+  let weekdays: number[] = [];
+  if (input.frequency === "weekly") {
+    weekdays = input.weekdays === undefined ? [weekdayOf(startDate)] : input.weekdays as number[];
+    const isWeekday = (day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6;
+    if (!Array.isArray(weekdays) || weekdays.length === 0 || !weekdays.every(isWeekday)) {
+      throw new HttpsError("invalid-argument", "recurrence.weekdays must list days from 0 (Sunday) to 6 (Saturday).");
+    }
+    weekdays = [...new Set(weekdays)].sort();
+  }
+  return { frequency: input.frequency, interval: interval as number, weekdays };
+}
+
+// Occurrence dates of a series from `from` to `to`, inclusive, never before the series start.
+export function listOccurrenceDates(rule: RecurrenceRule, startDate: string, from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let date = from < startDate ? startDate : from; date <= to; date = addDays(date, 1)) {
+    const offset = daysBetween(startDate, date);
+    const matches = rule.frequency === "daily"
+      ? offset % rule.interval === 0
+      : Math.floor(offset / 7) % rule.interval === 0 && rule.weekdays.includes(weekdayOf(date));
+    if (matches) dates.push(date);
+  }
+  return dates;
+}
@@ -0,0 +1,78 @@
+import * as admin from "firebase-admin";
+import { SchedulingRules, parseSchedulingRules } from "./scheduling.js";
+
+export type LocationKind = "airport" | "train" | "campus" | "other";
+
+// An approved pickup/drop-off point. Trips store this canonical copy, not what the client sent.
+export type SchoolLocation = {
+  id: string
+  name: string
+  kind: LocationKind
+  lat: number
+  lng: number
+}
+
+export type SchoolSettings = {
+  timezone: string
+  locations: SchoolLocation[]
+  scheduling: SchedulingRules
+}
+
+// Used for schools without a settings document and for scheduled jobs that span every school.
+export const DEFAULT_TIMEZONE = "America/Chicago";
+
+const LOCATION_KINDS: LocationKind[] = ["airport", "train", "campus", "other"];
+const CACHE_TTL_MS = 60_000;
+
+const cachedSettings = new Map<string, { settings: SchoolSettings; fetchedAt: number }>();
+
+const isTimezone = (value: unknown): value is string => {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const parseLocation = (value: unknown): SchoolLocation | null => {
+  if (!value || typeof value !== "object") return null;
+  const { id, name, kind, lat, lng } = value as Record<string, unknown>;
+  if (typeof id !== "string" || !id || typeof name !== "string" || !name) return null;
+  if (typeof lat !== "number" || typeof lng !== "number" || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { id, name, kind: LOCATION_KINDS.includes(kind as LocationKind) ? kind as LocationKind : "other", lat, lng };
+};
+
+// Reads schools/{schoolId}/settings/general, e.g.
+// { timezone: "America/New_York", locations: [{ id: "bos", name: "Boston Logan (BOS)", kind: "airport", lat, lng }],
+//   scheduling: { minLeadMinutes: 60, maxWindowHours: 6, maxAdvanceDays: 30, blackoutDates: ["2026-12-25"] } }.
+// Invalid entries are dropped rather than failing every caller.
+export async function getSchoolSettings(schoolId: string): Promise<SchoolSettings> {
+  const now = Date.now();
+  const cached = cachedSettings.get(schoolId);
+  if (cached && now - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.settings;
+  }
+
+  const snapshot = await admin.firestore().doc(`schools/${schoolId}/settings/general`).get();
+  const data = snapshot.data() ?? {};
+  const settings: SchoolSettings = {
+    timezone: isTimezone(data.timezone) ? data.timezone : DEFAULT_TIMEZONE,
+    locations: Array.isArray(data.locations)
+      ? data.locations.map(parseLocation).filter((location): location is SchoolLocation => location !== null)
+      : [],
+    scheduling: parseSchedulingRules(data.scheduling),
+  };
+  cachedSettings.set(schoolId, { settings, fetchedAt: now });
+  return settings;
+}
+
+export const getSchoolTimezone = async (schoolId: string): Promise<string> => (await getSchoolSettings(schoolId)).timezone;
+
+// Accepts a bare location id or an object with an id.
+export const findSchoolLocation = (settings: SchoolSettings, value: unknown): SchoolLocation | null => {
+  const id = typeof value === "string" ? value : (value as { id?: unknown } | null)?.id;
+  if (typeof id !== "string" && typeof id !== "number") return null;
+  return settings.locations.find((location) => location.id === String(id).trim()) ?? null;
+};
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+  EmailMessage,
+  TripSummary,
+  guestAcceptedEmail,
+  guestDepartureReminderEmail,
+  guestLeftEmail,
+  guestRemovedEmail,
+  hostAcceptedEmail,
+  hostDepartureReminderEmail,
+  hostTripCancelledByAdminEmail,
+  notificationDigestEmail,
+  pairRequestReceivedEmail,
+  requestDeclinedEmail,
+  requestWithdrawnEmail,
+  routeAlertEmail,
+  tripCancelledEmail,
+  tripUpdatedEmail,
+  unreadChatEmail,
+} from "../src/emailTemplates.js";
+
+// Every user-controlled value carries markup or quotes, so the snapshots lock in the escaped output.
+const NICKNAME = "<a href=\"x\">";
+const OTHER_NICKNAME = "Sam & <b>Co</b>";
+const APP_URL = "https://peer-ride.example.com";
+
+const trip: TripSummary = {
+  origin: "O'Hare \"Terminal 5\"",
+  destination: "Main Quad <script>alert(1)</script>",
+  start: "Fri, Oct 23, 9:00 AM",
+  end: "Fri, Oct 23, 11:00 AM",
+  tripUrl: `${APP_URL}/trips/abc123`,
+  hoursToTrip: 12,
+};
+
+const emailContact = { name: NICKNAME, method: "email", value: "\"><img src=x>@example.com" };
+const phoneContact = { name: OTHER_NICKNAME, method: "phone", value: "+15551234567" };
+
+const render = (message: EmailMessage) => {
+  expect(message.html).not.toContain(NICKNAME);
+  expect(message.html).not.toContain("<script>");
+  return { subject: message.subject, html: message.html, text: message.text };
+};
+
+describe("email templates", () => {
+  it("pairRequestReceivedEmail", () => {
+    expect(render(pairRequestReceivedEmail({
+      hostNickname: NICKNAME,
+      requesterName: OTHER_NICKNAME,
+      trip,
+      reputation: "4.5 <i>stars</i>",
+      pendingCount: 2,
+    }))).toMatchSnapshot();
+  });
+
+  it("guestAcceptedEmail", () => {
+    expect(render(guestAcceptedEmail({
+      hostNickname: NICKNAME,
+      trip,
+      coRiders: [OTHER_NICKNAME, "Jo's"],
+      hostContact: emailContact,
+    }))).toMatchSnapshot();
+  });
+
+  it("hostAcceptedEmail", () => {
+    expect(render(hostAcceptedEmail({
+      guestNickname: NICKNAME,
+      trip: { ...trip, hoursToTrip: 48 },
+      coRiders: [OTHER_NICKNAME],
+      seatsFilled: "2/3",
+      guestContact: phoneContact,
+    }))).toMatchSnapshot();
+  });
+
+  it("requestDeclinedEmail", () => {
+    expect(render(requestDeclinedEmail({ hostNickname: NICKNAME, trip, appUrl: APP_URL }))).toMatchSnapshot();
+  });
+
+  it("requestWithdrawnEmail", () => {
+    expect(render(requestWithdrawnEmail({ hostNickname: OTHER_NICKNAME, guestNickname: NICKNAME, trip })))
+      .toMatchSnapshot();
+  });
+
+  it("tripCancelledEmail", () => {
+    expect(render(tripCancelledEmail({
+      trip,
+      cancelledBy: "admin",
+      reason: "Road closed \"until further notice\" <b>today</b>",
+      appUrl: APP_URL,
+    }))).toMatchSnapshot();
+  });
+
+  it("hostTripCancelledByAdminEmail", () => {
+    expect(render(hostTripCancelledByAdminEmail({ hostNickname: NICKNAME, trip, reason: "It's <i>unsafe</i>" })))
+      .toMatchSnapshot();
+  });
+
+  it("guestRemovedEmail", () => {
+    expect(render(guestRemovedEmail({ hostNickname: NICKNAME, trip, appUrl: APP_URL }))).toMatchSnapshot();
+  });
+
+  it("guestLeftEmail", () => {
+    expect(render(guestLeftEmail({ hostNickname: OTHER_NICKNAME, guestNickname: NICKNAME, trip, reopened: true })))
+      .toMatchSnapshot();
+  });
+
+  it("tripUpdatedEmail", () => {
+    expect(render(tripUpdatedEmail({
+      hostNickname: NICKNAME,
+      trip,
+      changes: ["Pickup moved to \"Gate 'B'\"", "Notes: <marquee>hi</marquee>"],
+    }))).toMatchSnapshot();
+  });
+
+  it("routeAlertEmail", () => {
+    expect(render(routeAlertEmail({ hostNickname: NICKNAME, trip }))).toMatchSnapshot();
+  });
+
+  it("hostDepartureReminderEmail", () => {
+    expect(render(hostDepartureReminderEmail({
+      hostNickname: NICKNAME,
+      trip,
+      when: "in 2 hours",
+      guestContacts: [emailContact, phoneContact],
+    }))).toMatchSnapshot();
+  });
+
+  it("guestDepartureReminderEmail", () => {
+    expect(render(guestDepartureReminderEmail({
+      hostNickname: NICKNAME,
+      trip,
+      when: "tomorrow",
+      coRiders: [OTHER_NICKNAME],
+      hostContact: phoneContact,
+    }))).toMatchSnapshot();
+  });
+
+  it("unreadChatEmail", () => {
+    expect(render(unreadChatEmail({
+      recipientNickname: OTHER_NICKNAME,
+      senders: [NICKNAME, "Jo's"],
+      count: 3,
+      trip,
+    }))).toMatchSnapshot();
+  });
+
+  it("notificationDigestEmail", () => {
+    const items = [
+      requestDeclinedEmail({ hostNickname: NICKNAME, trip, appUrl: APP_URL }),
+      routeAlertEmail({ hostNickname: OTHER_NICKNAME, trip }),
+    ];
+    expect(render(notificationDigestEmail({ period: "daily", items, appUrl: APP_URL }))).toMatchSnapshot();
+  });
+});